@@ -0,0 +1,73 @@
+import { PrefixedHexString } from 'ethereumjs-tx';
+import { arrayify } from '@ethersproject/bytes';
+
+import { constants } from './Constants';
+
+/**
+ * The intrinsic gas rules of a network
+ */
+export interface CalldataPricing {
+    transactionGasCost: number;
+    /**
+     * Base cost of a transaction that creates a contract, instead of {@link transactionGasCost}
+     */
+    createContractGasCost: number;
+    zeroByteGasCost: number;
+    nonZeroByteGasCost: number;
+}
+
+/**
+ * RSKJ prices calldata as Ethereum did before EIP-2028
+ */
+export const rskCalldataPricing: CalldataPricing = {
+    transactionGasCost: constants.TRANSACTION_GAS_COST,
+    createContractGasCost: constants.TRANSACTION_CREATE_CONTRACT_GAS_COST,
+    zeroByteGasCost: constants.TX_ZERO_DATA_GAS_COST,
+    nonZeroByteGasCost: constants.TX_NO_ZERO_DATA_GAS_COST
+};
+
+/**
+ * Istanbul pricing, EIP-2028 lowers the non-zero bytes cost to 16
+ */
+export const eip2028CalldataPricing: CalldataPricing = {
+    ...rskCalldataPricing,
+    nonZeroByteGasCost: 16
+};
+
+export function countZeroBytes(data: PrefixedHexString): {
+    zeroBytes: number;
+    nonZeroBytes: number;
+} {
+    const bytes = arrayify(data === '' ? '0x' : data);
+    const zeroBytes = bytes.filter((byte) => byte === 0).length;
+    return { zeroBytes, nonZeroBytes: bytes.length - zeroBytes };
+}
+
+/**
+ * @returns the gas paid for the calldata bytes alone
+ */
+export function calldataGasCost(
+    data: PrefixedHexString,
+    pricing: CalldataPricing = rskCalldataPricing
+): number {
+    const { zeroBytes, nonZeroBytes } = countZeroBytes(data);
+    return (
+        zeroBytes * pricing.zeroByteGasCost +
+        nonZeroBytes * pricing.nonZeroByteGasCost
+    );
+}
+
+/**
+ * @returns the gas a transaction pays before executing: the base cost plus its calldata
+ * @param isContractCreation - whether the transaction has no `to` and deploys its data
+ */
+export function intrinsicGasCost(
+    data: PrefixedHexString,
+    isContractCreation = false,
+    pricing: CalldataPricing = rskCalldataPricing
+): number {
+    const baseCost = isContractCreation
+        ? pricing.createContractGasCost
+        : pricing.transactionGasCost;
+    return baseCost + calldataGasCost(data, pricing);
+}
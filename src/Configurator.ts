@@ -0,0 +1,296 @@
+import fs from 'fs';
+import ow, { BasePredicate } from 'ow';
+import { checkAddressChecksum, isAddress } from 'web3-utils';
+
+import { constants } from './Constants';
+import { getEnvironmentByChainId, getEnvironments } from './Environments';
+import { EnvelopingConfig } from './types/EnvelopingConfig';
+
+/**
+ * The config used for the fields that are not given. The contract addresses
+ * are taken from the known deployments of the chain by {@link resolveConfig}.
+ */
+export const defaultEnvelopingConfig: EnvelopingConfig = {
+    preferredRelays: [],
+    onlyPreferredRelays: false,
+    // look for relay registrations in the last 60000 blocks (~3 weeks on RSK), in a single query
+    relayLookupWindowBlocks: 60000,
+    relayLookupWindowParts: 1,
+    methodSuffix: '',
+    jsonStringifyRequest: false,
+    relayTimeoutGrace: 1800,
+    sliceSize: 3,
+    logLevel: 0,
+    gasPriceFactorPercent: 0,
+    // 0.06 GWei
+    minGasPrice: 60000000,
+    maxRelayNonceGap: 3,
+    relayHubAddress: constants.ZERO_ADDRESS,
+    deployVerifierAddress: constants.ZERO_ADDRESS,
+    relayVerifierAddress: constants.ZERO_ADDRESS,
+    forwarderAddress: constants.ZERO_ADDRESS,
+    smartWalletFactoryAddress: constants.ZERO_ADDRESS,
+    chainId: 33,
+    clientId: '1',
+    // 2 days
+    requestValidSeconds: 172800
+};
+
+type ConfigFieldType = 'string' | 'number' | 'boolean' | 'string[]';
+
+interface ConfigField {
+    type: ConfigFieldType;
+    predicate: BasePredicate<any>;
+}
+
+const checksummedAddress = ow.string.is(
+    (value) =>
+        (isAddress(value) && checkAddressChecksum(value)) ||
+        `${value} is not a checksummed address`
+);
+const positiveInteger = ow.number.integer.positive;
+const nonNegativeInteger = ow.number.integer.greaterThanOrEqual(0);
+
+const configFields: { [key in keyof EnvelopingConfig]-?: ConfigField } = {
+    preferredRelays: {
+        type: 'string[]',
+        predicate: ow.array.ofType(ow.string)
+    },
+    onlyPreferredRelays: { type: 'boolean', predicate: ow.boolean },
+    relayLookupWindowBlocks: { type: 'number', predicate: positiveInteger },
+    relayLookupWindowParts: { type: 'number', predicate: positiveInteger },
+    methodSuffix: { type: 'string', predicate: ow.string },
+    jsonStringifyRequest: { type: 'boolean', predicate: ow.boolean },
+    relayTimeoutGrace: { type: 'number', predicate: nonNegativeInteger },
+    sliceSize: { type: 'number', predicate: positiveInteger },
+    logLevel: { type: 'number', predicate: ow.number.integer.inRange(0, 5) },
+    gasPriceFactorPercent: {
+        type: 'number',
+        predicate: ow.number.greaterThanOrEqual(-100)
+    },
+    minGasPrice: { type: 'number', predicate: nonNegativeInteger },
+    maxRelayNonceGap: { type: 'number', predicate: nonNegativeInteger },
+    relayHubAddress: { type: 'string', predicate: checksummedAddress },
+    deployVerifierAddress: { type: 'string', predicate: checksummedAddress },
+    relayVerifierAddress: { type: 'string', predicate: checksummedAddress },
+    forwarderAddress: { type: 'string', predicate: checksummedAddress },
+    smartWalletFactoryAddress: {
+        type: 'string',
+        predicate: checksummedAddress
+    },
+    chainId: { type: 'number', predicate: positiveInteger },
+    networkId: { type: 'number', predicate: ow.optional.number.integer },
+    baseChain: { type: 'string', predicate: ow.optional.string.nonEmpty },
+    hardfork: { type: 'string', predicate: ow.optional.string.nonEmpty },
+    eip155: { type: 'boolean', predicate: ow.optional.boolean },
+    clientId: { type: 'string', predicate: ow.string },
+    requestValidSeconds: { type: 'number', predicate: positiveInteger }
+};
+
+export class ConfigValidationError extends Error {
+    constructor(readonly errors: string[]) {
+        super(
+            `Invalid Enveloping config:\n${errors
+                .map((error) => `  - ${error}`)
+                .join('\n')}`
+        );
+        this.name = 'ConfigValidationError';
+    }
+}
+
+export interface ConfigValidationOptions {
+    /**
+     * Accept ZERO_ADDRESS for the RelayHub, which leaves the contracts uninitialized
+     */
+    allowMissingContracts?: boolean;
+}
+
+function checkChainConsistency(config: EnvelopingConfig): string[] {
+    const errors: string[] = [];
+    getEnvironments()
+        .filter((environment) => environment.chainId !== config.chainId)
+        .forEach((environment) => {
+            const { relayHub } = environment.deployments;
+            if (
+                relayHub != null &&
+                relayHub.toLowerCase() === config.relayHubAddress?.toLowerCase()
+            ) {
+                errors.push(
+                    `relayHubAddress ${config.relayHubAddress} is the RelayHub of ${environment.name} (chainId ${environment.chainId}), but chainId is ${config.chainId}`
+                );
+            }
+        });
+    return errors;
+}
+
+/**
+ * @returns the problems found in the config, empty if it is valid
+ */
+export function getConfigErrors(
+    config: EnvelopingConfig,
+    options: ConfigValidationOptions = {}
+): string[] {
+    const errors: string[] = [];
+    (Object.keys(configFields) as Array<keyof EnvelopingConfig>).forEach(
+        (key) => {
+            try {
+                ow(config[key], key, configFields[key].predicate);
+            } catch (e) {
+                errors.push((e as Error).message);
+            }
+        }
+    );
+    if (
+        options.allowMissingContracts !== true &&
+        config.relayHubAddress === constants.ZERO_ADDRESS
+    ) {
+        errors.push(
+            `relayHubAddress is not set and chainId ${config.chainId} has no known RelayHub deployment`
+        );
+    }
+    return errors.concat(checkChainConsistency(config));
+}
+
+/**
+ * @throws ConfigValidationError with every problem found
+ */
+export function validateConfig(
+    config: EnvelopingConfig,
+    options: ConfigValidationOptions = {}
+): void {
+    const errors = getConfigErrors(config, options);
+    if (errors.length > 0) {
+        throw new ConfigValidationError(errors);
+    }
+}
+
+/**
+ * Fills the missing fields with the defaults, and the contract addresses with
+ * the known deployments of the chain, then validates the result.
+ * @throws ConfigValidationError
+ */
+export function resolveConfig(
+    partialConfig: Partial<EnvelopingConfig> = {},
+    options: ConfigValidationOptions = {}
+): EnvelopingConfig {
+    const chainId = partialConfig.chainId ?? defaultEnvelopingConfig.chainId;
+    const deployments = getEnvironmentByChainId(chainId)?.deployments ?? {};
+    const config: EnvelopingConfig = {
+        ...defaultEnvelopingConfig,
+        relayHubAddress:
+            deployments.relayHub ?? defaultEnvelopingConfig.relayHubAddress,
+        deployVerifierAddress:
+            deployments.deployVerifier ??
+            defaultEnvelopingConfig.deployVerifierAddress,
+        relayVerifierAddress:
+            deployments.relayVerifier ??
+            defaultEnvelopingConfig.relayVerifierAddress,
+        smartWalletFactoryAddress:
+            deployments.smartWalletFactory ??
+            defaultEnvelopingConfig.smartWalletFactoryAddress,
+        ...removeUndefined(partialConfig)
+    };
+    validateConfig(config, options);
+    return config;
+}
+
+function removeUndefined<T>(object: T): Partial<T> {
+    return Object.fromEntries(
+        Object.entries(object).filter(([, value]) => value !== undefined)
+    ) as Partial<T>;
+}
+
+export const CONFIG_ENV_PREFIX = 'RIF_RELAY_';
+
+/**
+ * @returns the environment variable overriding a config field, e.g. RIF_RELAY_RELAY_HUB_ADDRESS
+ */
+export function getConfigEnvName(
+    key: keyof EnvelopingConfig,
+    prefix = CONFIG_ENV_PREFIX
+): string {
+    return prefix + key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+function parseEnvValue(
+    key: string,
+    value: string,
+    type: ConfigFieldType
+): string | number | boolean | string[] {
+    switch (type) {
+        case 'number':
+            if (value.trim() === '' || isNaN(Number(value))) {
+                throw new Error(`${key} must be a number, got '${value}'`);
+            }
+            return Number(value);
+        case 'boolean':
+            if (!['true', 'false'].includes(value.toLowerCase())) {
+                throw new Error(`${key} must be true or false, got '${value}'`);
+            }
+            return value.toLowerCase() === 'true';
+        case 'string[]':
+            return value
+                .split(',')
+                .map((item) => item.trim())
+                .filter((item) => item !== '');
+        default:
+            return value;
+    }
+}
+
+/**
+ * @returns the config fields set in the environment variables
+ * @throws ConfigValidationError if a variable cannot be parsed
+ */
+export function getConfigFromEnv(
+    env: NodeJS.ProcessEnv = process.env,
+    prefix = CONFIG_ENV_PREFIX
+): Partial<EnvelopingConfig> {
+    const config: { [key: string]: any } = {};
+    const errors: string[] = [];
+    (Object.keys(configFields) as Array<keyof EnvelopingConfig>).forEach(
+        (key) => {
+            const name = getConfigEnvName(key, prefix);
+            const value = env[name];
+            if (value == null) {
+                return;
+            }
+            try {
+                config[key] = parseEnvValue(
+                    name,
+                    value,
+                    configFields[key].type
+                );
+            } catch (e) {
+                errors.push((e as Error).message);
+            }
+        }
+    );
+    if (errors.length > 0) {
+        throw new ConfigValidationError(errors);
+    }
+    return config;
+}
+
+/**
+ * Loads the config from a JSON file, overridden by the environment variables
+ * (see {@link getConfigEnvName}), and resolves it with {@link resolveConfig}.
+ * @throws ConfigValidationError
+ */
+export function loadConfig(
+    path?: string,
+    env: NodeJS.ProcessEnv = process.env,
+    options: ConfigValidationOptions = {}
+): EnvelopingConfig {
+    let fileConfig: Partial<EnvelopingConfig> = {};
+    if (path != null) {
+        try {
+            fileConfig = JSON.parse(fs.readFileSync(path, 'utf8'));
+        } catch (e) {
+            throw new ConfigValidationError([
+                `Cannot read config file ${path}: ${(e as Error).message}`
+            ]);
+        }
+    }
+    return resolveConfig({ ...fileConfig, ...getConfigFromEnv(env) }, options);
+}
@@ -1,4 +1,5 @@
 import Common from 'ethereumjs-common';
+import web3Abi, { AbiCoder } from 'web3-eth-abi';
 import Web3 from 'web3';
 import log from 'loglevel';
 import { BlockTransactionString } from 'web3-eth';
@@ -36,20 +37,63 @@ import {
     ERC20Instance,
     ISmartWalletFactoryInstance
 } from '@rsksmart/rif-relay-contracts/types/truffle-contracts';
-import { toBN, toHex } from 'web3-utils';
+import { keccak256, toBN, toHex } from 'web3-utils';
 import BN from 'bn.js';
 
 import {
     DeployTransactionRequest,
     RelayTransactionRequest
 } from './types/RelayTransactionRequest';
-import { event2topic, sleep } from './Utils';
+import {
+    calculateDeployTransactionMaxPossibleGas,
+    estimateMaxPossibleRelayCallWithLinearFit,
+    event2topic,
+    isDeployRequest,
+    sleep,
+    transactionParamDataCost
+} from './Utils';
 import replaceErrors from './ErrorReplacerJSON';
 import VersionsManager from './VersionsManager';
 import { EnvelopingConfig } from './types/EnvelopingConfig';
 import EnvelopingTransactionDetails from './types/EnvelopingTransactionDetails';
 import { constants } from './Constants';
+import { CachingProvider, CachingProviderOptions } from './dev/CachingProvider';
 import { ERC20Options, ERC20Token } from './types/token.type';
+import {
+    defaultEnvironment,
+    Environment,
+    getEnvironmentByChainId
+} from './Environments';
+import { GasPriceOracle } from './GasPriceOracle';
+import {
+    DecodedRevert,
+    defaultErrorDecoder,
+    ErrorDecoder
+} from './ErrorDecoder';
+import {
+    ForwarderState,
+    ForwarderVerificationResult,
+    SMART_WALLET_OWNER_SLOT,
+    verifyForwardRequest
+} from './ForwarderVerification';
+import { getLookupWindowSize, LogScanner, LogScanOptions } from './LogScanner';
+import {
+    abiHubCallEncoder,
+    decodeHubTransaction,
+    DecodedHubTransaction
+} from './RelayHubCalldata';
+import {
+    decodeHubEvents,
+    decodeHubLogs,
+    HubEventName,
+    RelayHubEvent,
+    RelayServerRegistered,
+    RelayWorkersAdded,
+    TransactionRejectedByRecipient,
+    TransactionRejectedByRecipientEvent,
+    TransactionRelayed,
+    TransactionRelayedEvent
+} from './RelayHubEvents';
 
 // Truffle Contract typings seem to be completely out of their minds
 import TruffleContract = require('@truffle/contract');
@@ -60,6 +104,8 @@ import sourceMapSupport from 'source-map-support';
 //@ts-ignore
 sourceMapSupport.install({ errorFormatterForce: true });
 
+const abi = web3Abi as unknown as AbiCoder;
+
 type EventName = string;
 
 export interface EstimateGasParams {
@@ -69,26 +115,164 @@ export interface EstimateGasParams {
     gasPrice?: PrefixedHexString;
 }
 
-export const RelayServerRegistered: EventName = 'RelayServerRegistered';
-export const RelayWorkersAdded: EventName = 'RelayWorkersAdded';
-export const TransactionRelayed: EventName = 'TransactionRelayed';
-export const TransactionRejectedByRecipient: EventName =
-    'TransactionRelayedButRevertedByRecipient';
-
-const ActiveManagerEvents = [
+const ActiveManagerEvents: HubEventName[] = [
     RelayServerRegistered,
     RelayWorkersAdded,
     TransactionRelayed,
     TransactionRejectedByRecipient
 ];
 
-export const StakeAdded: EventName = 'StakeAdded';
-export const StakeUnlocked: EventName = 'StakeUnlocked';
-export const StakeWithdrawn: EventName = 'StakeWithdrawn';
-export const StakePenalized: EventName = 'StakePenalized';
-
 export type Web3Provider = HttpProvider | IpcProvider | WebsocketProvider;
 
+/**
+ * The step of the view-call validation that produced the outcome
+ */
+export type CallValidationStage =
+    | 'balance'
+    | 'verifier'
+    | 'hub'
+    | 'destination';
+
+export type CallValidationCode =
+    | 'accepted'
+    | 'insufficientWorkerBalance'
+    | 'verifierRejected'
+    | 'hubReverted'
+    | 'destinationReverted';
+
+export interface CallValidationOutcome {
+    verifierAccepted: boolean;
+    returnValue: string;
+    reverted: boolean;
+    stage: CallValidationStage;
+    code: CallValidationCode;
+    /**
+     * The decoded revert reason, if the validation failed on a revert
+     */
+    revert?: DecodedRevert;
+}
+
+export interface RelayCallValidation extends CallValidationOutcome {
+    revertedInDestination: boolean;
+}
+
+export type DeployCallValidation = CallValidationOutcome;
+
+/**
+ * The result of one step of a dry run; steps that throw carry the decoded error instead of a value
+ */
+export interface DryRunStep<T> {
+    value?: T;
+    error?: DecodedRevert;
+}
+
+export interface GasDryRunReport {
+    kind: 'relay' | 'deploy';
+    relayWorker: string;
+    gasPrice: string;
+    /**
+     * Gas and token gas declared in the request
+     */
+    requestGas?: string;
+    requestTokenGas: string;
+    verifier: DryRunStep<boolean>;
+    /**
+     * For relay requests, whether the destination call succeeded; for deploys, the return value of deployCall
+     */
+    hub: DryRunStep<boolean | string>;
+    destinationCallGas: DryRunStep<number>;
+    tokenPaymentGas: DryRunStep<number>;
+    calldataCost: DryRunStep<number>;
+    /**
+     * Max possible gas according to the linear fit of relay costs (or the deploy formula)
+     */
+    linearFitGas: DryRunStep<number>;
+    /**
+     * Max possible gas estimated by the node for the whole hub call
+     */
+    maxPossibleGas: DryRunStep<number>;
+    workerBalance: DryRunStep<string>;
+    /**
+     * Cost of the max possible gas (or the linear fit if it failed) at {@link gasPrice}
+     */
+    requiredBalance?: string;
+    affordable?: boolean;
+}
+
+export type DiagnosticStatus = 'ok' | 'warning' | 'error';
+
+export interface DiagnosticCheck {
+    name: string;
+    status: DiagnosticStatus;
+    message: string;
+}
+
+/**
+ * The result of {@link ContractInteractor.diagnose}; healthy if no check has an error
+ */
+export interface HealthReport {
+    healthy: boolean;
+    checks: DiagnosticCheck[];
+}
+
+export class HealthCheckError extends Error {
+    constructor(readonly report: HealthReport) {
+        super(
+            `ContractInteractor health check failed:\n${report.checks
+                .filter((check) => check.status === 'error')
+                .map((check) => `  - ${check.name}: ${check.message}`)
+                .join('\n')}`
+        );
+        this.name = 'HealthCheckError';
+    }
+}
+
+export interface InitOptions {
+    /**
+     * Run {@link ContractInteractor.diagnose} first and fail on any error
+     */
+    strict?: boolean;
+}
+
+/**
+ * What happened to a relayCall/deployCall transaction. Deploys emit no RelayHub event,
+ * so a mined deploy is only 'deployed' or 'reverted'. 'noEvent' is a successful relayCall
+ * without a hub event for the request, e.g. sent to another hub.
+ */
+export type RelayedTransactionOutcome =
+    | 'pending'
+    | 'relayed'
+    | 'rejectedByRecipient'
+    | 'deployed'
+    | 'reverted'
+    | 'noEvent';
+
+export interface RelayedTransactionDetails extends DecodedHubTransaction {
+    outcome: RelayedTransactionOutcome;
+    receipt?: TransactionReceipt;
+    /**
+     * The hub events of the receipt whose relayRequestSigHash is the hash of the request signature
+     */
+    events: Array<
+        TransactionRelayedEvent | TransactionRejectedByRecipientEvent
+    >;
+}
+
+export interface ContractInteractorOptions {
+    /**
+     * Replaces the default oracle, which uses the node gas price with the config's factor and floor
+     */
+    gasPriceOracle?: GasPriceOracle;
+    /**
+     * Decoder for the reverts of the validation calls, to register custom errors
+     */
+    errorDecoder?: ErrorDecoder;
+    /**
+     * Caches the reads of the node by block, see {@link CachingProvider}
+     */
+    readCache?: Partial<CachingProviderOptions>;
+}
+
 export default class ContractInteractor {
     private readonly VERSION = '2.0.1';
 
@@ -111,18 +295,35 @@ export default class ContractInteractor {
     private readonly provider: Web3Provider;
     private readonly config: EnvelopingConfig;
     private readonly versionManager: VersionsManager;
+    readonly gasPriceOracle: GasPriceOracle;
+    readonly errorDecoder: ErrorDecoder;
+    readonly readCache?: CachingProvider;
 
     private rawTxOptions?: TransactionOptions;
     chainId!: number;
     private networkId?: number;
     private networkType?: string;
 
-    constructor(provider: Web3Provider, config: EnvelopingConfig) {
+    constructor(
+        provider: Web3Provider,
+        config: EnvelopingConfig,
+        options: ContractInteractorOptions = {}
+    ) {
         this.versionManager = new VersionsManager(this.VERSION);
+        if (options.readCache != null) {
+            this.readCache = new CachingProvider(
+                provider as HttpProvider,
+                options.readCache
+            );
+            provider = this.readCache;
+        }
         this.web3 = new Web3(provider);
         this.config = config;
         this.provider = provider;
         this.chainId = config.chainId;
+        this.gasPriceOracle =
+            options.gasPriceOracle ?? new GasPriceOracle(this.web3, config);
+        this.errorDecoder = options.errorDecoder ?? defaultErrorDecoder;
         // @ts-ignore
         this.IRelayVerifierContract = TruffleContract({
             contractName: 'IRelayVerifier',
@@ -177,29 +378,180 @@ export default class ContractInteractor {
         return this.provider;
     }
 
-    async init(): Promise<void> {
+    async init(options: InitOptions = {}): Promise<void> {
         log.debug('Contract Interactor - Initializing');
         if (this.isInitialized()) {
             throw new Error('_init has already called');
         }
+        if (options.strict === true) {
+            const report = await this.diagnose();
+            if (!report.healthy) {
+                throw new HealthCheckError(report);
+            }
+        }
         await this._initializeContracts();
         log.debug('Contract Interactor - Initialized succesfully');
         await this._validateCompatibility().catch((err) =>
             log.warn('WARNING: beta ignore version compatibility', err.message)
         );
 
-        this.chainId = await this.web3.eth.getChainId();
-        this.networkId = await this.web3.eth.net.getId();
+        const nodeChainId = await this.web3.eth.getChainId();
+        const nodeNetworkId = await this.web3.eth.net.getId();
+        this.chainId = this.config.chainId ?? nodeChainId;
+        this.networkId = this.config.networkId ?? nodeNetworkId;
         await this._setNetworkType();
         log.debug(
             `Contract Interactor - Using chainId: ${this.chainId}, networkId:${this.networkId} , networkType:${this.networkType} `
         );
         // chain === 'private' means we're on ganache, and ethereumjs-tx.Transaction doesn't support that chain type
-        this.rawTxOptions = getRawTxOptions(
+        const rawTxOptions = getRawTxOptions(
             this.chainId,
             this.networkId,
-            this.networkType
+            this.networkType,
+            this._getRawTxChainParams()
         );
+        validateRawTxOptions(rawTxOptions, nodeChainId, nodeNetworkId);
+        this.rawTxOptions = rawTxOptions;
+    }
+
+    /**
+     * The chain parameters to sign with: the config's, then the environment's of the chain
+     */
+    _getRawTxChainParams(): RawTxChainParams {
+        const environment = getEnvironmentByChainId(this.chainId);
+        const eip155 = this.config.eip155 ?? environment?.eip155;
+        // the environment hardfork only applies to its own EIP-155 setting
+        const environmentHardfork =
+            eip155 === environment?.eip155 ? environment?.hardfork : undefined;
+        return {
+            baseChain: this.config.baseChain,
+            name: environment?.name,
+            hardfork: this.config.hardfork ?? environmentHardfork,
+            eip155
+        };
+    }
+
+    /**
+     * Checks the node and the configured contracts without initializing the interactor:
+     * the chain and network ids, the code at every contract address, the hub version
+     * and the interface of the verifiers.
+     */
+    async diagnose(): Promise<HealthReport> {
+        const checks: DiagnosticCheck[] = [];
+        const check = async (
+            name: string,
+            run: () => Promise<[DiagnosticStatus, string]>
+        ): Promise<void> => {
+            try {
+                const [status, message] = await run();
+                checks.push({ name, status, message });
+            } catch (e) {
+                checks.push({
+                    name,
+                    status: 'error',
+                    message: this.errorDecoder.decodeError(e).reason
+                });
+            }
+        };
+
+        await check('chainId', async () => {
+            const nodeChainId = await this.web3.eth.getChainId();
+            return nodeChainId === this.config.chainId
+                ? ['ok', `Node is on chainId ${nodeChainId}`]
+                : [
+                      'error',
+                      `Node is on chainId ${nodeChainId}, the config expects ${this.config.chainId}`
+                  ];
+        });
+        await check('networkId', async () => {
+            const nodeNetworkId = await this.web3.eth.net.getId();
+            if (this.config.networkId == null) {
+                return ['ok', `Node is on networkId ${nodeNetworkId}`];
+            }
+            return nodeNetworkId === this.config.networkId
+                ? ['ok', `Node is on networkId ${nodeNetworkId}`]
+                : [
+                      'error',
+                      `Node is on networkId ${nodeNetworkId}, the config expects ${this.config.networkId}`
+                  ];
+        });
+
+        const contracts: Array<[string, string]> = [
+            ['relayHub', this.config.relayHubAddress],
+            ['relayVerifier', this.config.relayVerifierAddress],
+            ['deployVerifier', this.config.deployVerifierAddress],
+            ['forwarder', this.config.forwarderAddress],
+            ['smartWalletFactory', this.config.smartWalletFactoryAddress]
+        ];
+        const deployedCode = new Map<string, string>();
+        for (const [name, address] of contracts) {
+            await check(`${name}Code`, async () => {
+                if (address == null || address === constants.ZERO_ADDRESS) {
+                    return ['warning', `${name} address is not configured`];
+                }
+                const code = await this.getCode(address);
+                if (code == null || code === '0x' || code === '0x0') {
+                    return ['error', `No contract code at ${name} ${address}`];
+                }
+                deployedCode.set(name, code);
+                return ['ok', `${name} deployed at ${address}`];
+            });
+        }
+
+        if (deployedCode.has('relayHub')) {
+            await check('relayHubVersion', async () => {
+                const hub = await this._createRelayHub(
+                    this.config.relayHubAddress
+                );
+                const version = await hub.versionHub();
+                return this.versionManager.isMinorSameOrNewer(version)
+                    ? ['ok', `Hub version ${version}`]
+                    : [
+                          'error',
+                          `Hub version ${version} is not supported by the interactor ${this.versionManager.componentVersion}`
+                      ];
+            });
+        }
+        const verifiers: Array<[string, string, any[]]> = [
+            [
+                'relayVerifier',
+                this.config.relayVerifierAddress,
+                IRelayVerifier.abi
+            ],
+            [
+                'deployVerifier',
+                this.config.deployVerifierAddress,
+                IDeployVerifier.abi
+            ]
+        ];
+        for (const [name, address, verifierAbi] of verifiers) {
+            const code = deployedCode.get(name);
+            if (code == null) {
+                continue;
+            }
+            await check(`${name}Interface`, async () => {
+                const missing = getMissingFunctions(code, verifierAbi);
+                if (missing.length > 0) {
+                    return [
+                        'error',
+                        `${name} ${address} does not implement ${missing.join(
+                            ', '
+                        )}`
+                    ];
+                }
+                const verifier =
+                    name === 'relayVerifier'
+                        ? await this._createRelayVerifier(address)
+                        : await this._createDeployVerifier(address);
+                const version = await verifier.versionVerifier();
+                return ['ok', `${name} version ${version}`];
+            });
+        }
+
+        return {
+            healthy: checks.every((check) => check.status !== 'error'),
+            checks
+        };
     }
 
     isInitialized(): boolean {
@@ -247,6 +599,10 @@ export default class ContractInteractor {
             log.debug(
                 `Contract Interactor - Relay Hub initialized: ${this.relayHubInstance.address}`
             );
+        } else {
+            log.warn(
+                'Contract Interactor - relayHubAddress is the zero address, the RelayHub will not be initialized'
+            );
         }
         if (this.config.relayVerifierAddress !== constants.ZERO_ADDRESS) {
             this.relayVerifierInstance = await this._createRelayVerifier(
@@ -344,12 +700,7 @@ export default class ContractInteractor {
         relayRequest: RelayRequest,
         signature: PrefixedHexString,
         relayWorker: string
-    ): Promise<{
-        verifierAccepted: boolean;
-        returnValue: string;
-        reverted: boolean;
-        revertedInDestination: boolean;
-    }> {
+    ): Promise<RelayCallValidation> {
         const relayHub = this.relayHubInstance;
         const externalGasLimit: number = await this.getMaxViewableRelayGasLimit(
             relayRequest,
@@ -362,7 +713,9 @@ export default class ContractInteractor {
                 verifierAccepted: false,
                 reverted: false,
                 returnValue: `relayWorker ${relayWorker} does not have enough balance to cover the maximum possible gas for this transaction`,
-                revertedInDestination: false
+                revertedInDestination: false,
+                stage: 'balance',
+                code: 'insufficientWorkerBalance'
             };
         }
 
@@ -377,15 +730,15 @@ export default class ContractInteractor {
                     'pending'
                 );
         } catch (e) {
-            const message =
-                e instanceof Error
-                    ? e.message
-                    : JSON.stringify(e, replaceErrors);
+            const revert = this.errorDecoder.decodeError(e);
             return {
                 verifierAccepted: false,
                 reverted: false,
-                returnValue: `view call to 'relayCall' reverted in verifier: ${message}`,
-                revertedInDestination: false
+                returnValue: `view call to 'relayCall' reverted in verifier: ${revert.reason}`,
+                revertedInDestination: false,
+                stage: 'verifier',
+                code: 'verifierRejected',
+                revert
             };
         }
 
@@ -400,22 +753,25 @@ export default class ContractInteractor {
                 });
 
             // res is destinationCallSuccess
+            const revertedInDestination = !(res as boolean);
             return {
                 verifierAccepted: true,
                 reverted: false,
                 returnValue: '',
-                revertedInDestination: !(res as boolean)
+                revertedInDestination,
+                stage: 'destination',
+                code: revertedInDestination ? 'destinationReverted' : 'accepted'
             };
         } catch (e) {
-            const message =
-                e instanceof Error
-                    ? e.message
-                    : JSON.stringify(e, replaceErrors);
+            const revert = this.errorDecoder.decodeError(e);
             return {
                 verifierAccepted: true,
                 reverted: true,
-                returnValue: `view call to 'relayCall' reverted in client: ${message}`,
-                revertedInDestination: false
+                returnValue: `view call to 'relayCall' reverted in client: ${revert.reason}`,
+                revertedInDestination: false,
+                stage: 'hub',
+                code: 'hubReverted',
+                revert
             };
         }
     }
@@ -423,11 +779,7 @@ export default class ContractInteractor {
     async validateAcceptDeployCall(
         request: DeployTransactionRequest,
         relayWorker: string
-    ): Promise<{
-        verifierAccepted: boolean;
-        returnValue: string;
-        reverted: boolean;
-    }> {
+    ): Promise<DeployCallValidation> {
         const relayHub = this.relayHubInstance;
         const externalGasLimit = await this.getMaxViewableDeployGasLimit(
             request,
@@ -439,7 +791,9 @@ export default class ContractInteractor {
             return {
                 verifierAccepted: false,
                 reverted: false,
-                returnValue: `relayWorker ${relayWorker} does not have enough balance to cover the maximum possible gas for this transaction`
+                returnValue: `relayWorker ${relayWorker} does not have enough balance to cover the maximum possible gas for this transaction`,
+                stage: 'balance',
+                code: 'insufficientWorkerBalance'
             };
         }
 
@@ -454,14 +808,14 @@ export default class ContractInteractor {
                     from: relayWorker
                 });
         } catch (e) {
-            const message =
-                e instanceof Error
-                    ? e.message
-                    : JSON.stringify(e, replaceErrors);
+            const revert = this.errorDecoder.decodeError(e);
             return {
                 verifierAccepted: false,
                 reverted: false,
-                returnValue: `view call to 'deploy call' reverted in verifier: ${message}`
+                returnValue: `view call to 'deploy call' reverted in verifier: ${revert.reason}`,
+                stage: 'verifier',
+                code: 'verifierRejected',
+                revert
             };
         }
 
@@ -478,21 +832,211 @@ export default class ContractInteractor {
             return {
                 verifierAccepted: true,
                 reverted: false,
-                returnValue: res.returnValue
+                returnValue: res.returnValue,
+                stage: 'hub',
+                code: 'accepted'
             };
         } catch (e) {
-            const message =
-                e instanceof Error
-                    ? e.message
-                    : JSON.stringify(e, replaceErrors);
+            const revert = this.errorDecoder.decodeError(e);
             return {
                 verifierAccepted: true,
                 reverted: true,
-                returnValue: `view call to 'deployCall' reverted in client: ${message}`
+                returnValue: `view call to 'deployCall' reverted in client: ${revert.reason}`,
+                stage: 'hub',
+                code: 'hubReverted',
+                revert
             };
         }
     }
 
+    /**
+     * Simulates a relay or deploy request as the given worker would send it and reports
+     * every gas figure involved, running all the steps even if some of them fail.
+     * @param gasPrice - the gas price to check the worker balance with, the request's by default
+     */
+    async dryRun(
+        request: RelayTransactionRequest | DeployTransactionRequest,
+        relayWorker: string,
+        gasPrice: BN | number | string = request.relayRequest.relayData.gasPrice
+    ): Promise<GasDryRunReport> {
+        const isDeploy = isDeployRequest(request);
+        const environment = this.getEnvironment();
+        const { relayRequest, metadata } = request;
+        const { request: forwardRequest, relayData } = relayRequest;
+
+        const maxPossibleGas = await this._dryRunStep(async () =>
+            isDeployRequest(request)
+                ? await this.walletFactoryEstimateGasOfDeployCall(
+                      request,
+                      relayWorker
+                  )
+                : await this.estimateRelayTransactionMaxPossibleGasWithTransactionRequest(
+                      request,
+                      relayWorker
+                  )
+        );
+
+        const verifier = await this._dryRunStep(async () => {
+            const verifierInstance = isDeploy
+                ? this.deployVerifierInstance
+                : this.relayVerifierInstance;
+            await verifierInstance.contract.methods
+                .verifyRelayedCall(relayRequest, metadata.signature)
+                .call({ from: relayWorker });
+            return true;
+        });
+
+        const hub = await this._dryRunStep<boolean | string>(async () => {
+            const method = isDeploy
+                ? this.relayHubInstance.contract.methods.deployCall(
+                      relayRequest,
+                      metadata.signature
+                  )
+                : this.relayHubInstance.contract.methods.relayCall(
+                      relayRequest,
+                      metadata.signature
+                  );
+            const res = await method.call({
+                from: relayWorker,
+                gasPrice: relayData.gasPrice,
+                gas:
+                    maxPossibleGas.value != null
+                        ? toHex(maxPossibleGas.value)
+                        : undefined
+            });
+            return isDeploy ? res.returnValue : (res as boolean);
+        });
+
+        const deployRequest = isDeployRequest(request)
+            ? request.relayRequest.request
+            : undefined;
+        const tokenPayer =
+            deployRequest != null
+                ? await this._dryRunStep(
+                      async () =>
+                          await this.getSmartWalletAddress(
+                              relayData.callForwarder,
+                              deployRequest.from,
+                              deployRequest.recoverer,
+                              deployRequest.index
+                          )
+                  )
+                : { value: relayData.callForwarder };
+
+        const destinationCallGas = await this._dryRunStep(async () => {
+            if (
+                forwardRequest.to == null ||
+                forwardRequest.to === constants.ZERO_ADDRESS
+            ) {
+                return 0;
+            }
+            return await this.estimateDestinationContractCallGas({
+                from: tokenPayer.value ?? relayData.callForwarder,
+                to: forwardRequest.to,
+                data: forwardRequest.data,
+                gasPrice: toHex(relayData.gasPrice)
+            });
+        });
+
+        const tokenPaymentGas = await this._dryRunStep(async () => {
+            if (tokenPayer.error != null) {
+                throw new Error(
+                    `Cannot compute the smart wallet address: ${tokenPayer.error.reason}`
+                );
+            }
+            if (toBN(forwardRequest.tokenAmount).isZero()) {
+                return 0;
+            }
+            const token = await this._createERC20(forwardRequest.tokenContract);
+            return await this.estimateDestinationContractCallGas({
+                from: tokenPayer.value as string,
+                to: forwardRequest.tokenContract,
+                data: token.contract.methods
+                    .transfer(
+                        relayData.feesReceiver,
+                        forwardRequest.tokenAmount
+                    )
+                    .encodeABI(),
+                gasPrice: toHex(relayData.gasPrice)
+            });
+        });
+
+        const calldataCost = await this._dryRunStep(async () =>
+            transactionParamDataCost(request, environment.gasConstants)
+        );
+
+        const linearFitGas = await this._dryRunStep(async () => {
+            if (isDeploy) {
+                if (maxPossibleGas.value == null) {
+                    throw new Error(
+                        'The deploy formula needs the estimated deploy gas'
+                    );
+                }
+                return calculateDeployTransactionMaxPossibleGas(
+                    maxPossibleGas.value.toString(),
+                    tokenPaymentGas.value?.toString(),
+                    environment.gasModel
+                ).toNumber();
+            }
+            if (
+                destinationCallGas.value == null ||
+                tokenPaymentGas.value == null
+            ) {
+                throw new Error(
+                    'The linear fit needs the destination and token payment gas'
+                );
+            }
+            return estimateMaxPossibleRelayCallWithLinearFit(
+                destinationCallGas.value,
+                tokenPaymentGas.value,
+                false,
+                environment.gasModel,
+                environment.gasConstants.estimatedGasCorrectionFactor
+            );
+        });
+
+        const workerBalance = await this._dryRunStep(
+            async () => await this.getBalance(relayWorker)
+        );
+
+        const report: GasDryRunReport = {
+            kind: isDeploy ? 'deploy' : 'relay',
+            relayWorker,
+            gasPrice: gasPrice.toString(),
+            requestGas: (forwardRequest as RelayRequest['request']).gas,
+            requestTokenGas: forwardRequest.tokenGas,
+            verifier,
+            hub,
+            destinationCallGas,
+            tokenPaymentGas,
+            calldataCost,
+            linearFitGas,
+            maxPossibleGas,
+            workerBalance
+        };
+        const gasLimit = maxPossibleGas.value ?? linearFitGas.value;
+        if (gasLimit != null) {
+            const requiredBalance = toBN(gasLimit).mul(
+                toBN(gasPrice.toString())
+            );
+            report.requiredBalance = requiredBalance.toString();
+            if (workerBalance.value != null) {
+                report.affordable = toBN(workerBalance.value).gte(
+                    requiredBalance
+                );
+            }
+        }
+        return report;
+    }
+
+    async _dryRunStep<T>(step: () => Promise<T>): Promise<DryRunStep<T>> {
+        try {
+            return { value: await step() };
+        } catch (e) {
+            return { error: this.errorDecoder.decodeError(e) };
+        }
+    }
+
     async getMaxViewableDeployGasLimit(
         request: DeployTransactionRequest,
         relayWorker: string
@@ -535,7 +1079,8 @@ export default class ContractInteractor {
 
         // TODO RIF Team: Once the exactimator is available on the RSK node, then ESTIMATED_GAS_CORRECTION_FACTOR can be removed (in our tests it is 1.0 anyway, so it's not active)
         return Math.ceil(
-            maxPossibleGas * constants.ESTIMATED_GAS_CORRECTION_FACTOR
+            maxPossibleGas *
+                this.getEnvironment().gasConstants.estimatedGasCorrectionFactor
         );
     }
 
@@ -566,7 +1111,8 @@ export default class ContractInteractor {
 
         // TODO RIF Team: Once the exactimator is available on the RSK node, then ESTIMATED_GAS_CORRECTION_FACTOR can be removed (in our tests it is 1.0 anyway, so it's not active)
         return Math.ceil(
-            maxPossibleGas * constants.ESTIMATED_GAS_CORRECTION_FACTOR
+            maxPossibleGas *
+                this.getEnvironment().gasConstants.estimatedGasCorrectionFactor
         );
     }
 
@@ -583,9 +1129,13 @@ export default class ContractInteractor {
             gasPrice: transactionDetails.gasPrice,
             data: transactionDetails.data
         });
+        const {
+            estimatedGasCorrectionFactor,
+            internalTransactionEstimateCorrection
+        } = this.getEnvironment().gasConstants;
         let internalCallCost =
-            estimated > constants.INTERNAL_TRANSACTION_ESTIMATE_CORRECTION
-                ? estimated - constants.INTERNAL_TRANSACTION_ESTIMATE_CORRECTION
+            estimated > internalTransactionEstimateCorrection
+                ? estimated - internalTransactionEstimateCorrection
                 : estimated;
 
         // The INTERNAL_TRANSACTION_ESTIMATE_CORRECTION is substracted because the estimation is done using web3.eth.estimateGas which
@@ -595,8 +1145,7 @@ export default class ContractInteractor {
         // require(gasleft() > req.gas, "Not enough gas left"). This is done right before calling the destination internally
 
         if (addCushion) {
-            internalCallCost =
-                internalCallCost * constants.ESTIMATED_GAS_CORRECTION_FACTOR;
+            internalCallCost = internalCallCost * estimatedGasCorrectionFactor;
         }
 
         return internalCallCost;
@@ -633,24 +1182,14 @@ export default class ContractInteractor {
         relayRequest: RelayRequest,
         sig: PrefixedHexString
     ): PrefixedHexString {
-        // TODO: check this works as expected
-        // @ts-ignore
-        const relayHub = new this.IRelayHubContract('');
-        return relayHub.contract.methods
-            .relayCall(relayRequest, sig)
-            .encodeABI();
+        return abiHubCallEncoder.encodeRelayCall(relayRequest, sig);
     }
 
     encodeDeployCallABI(
         relayRequest: DeployRequest,
         sig: PrefixedHexString
     ): PrefixedHexString {
-        // TODO: check this works as expected
-        // @ts-ignore
-        const relayHub = new this.IRelayHubContract('');
-        return relayHub.contract.methods
-            .deployCall(relayRequest, sig)
-            .encodeABI();
+        return abiHubCallEncoder.encodeDeployCall(relayRequest, sig);
     }
 
     async getActiveRelayInfo(
@@ -673,39 +1212,83 @@ export default class ContractInteractor {
         return await Promise.all(contractCalls);
     }
 
+    /**
+     * Fetches the events in chunks of `relayLookupWindowBlocks / relayLookupWindowParts` blocks,
+     * see {@link LogScanner}. `fromBlock` defaults to the latest block, `toBlock` to the latest block.
+     */
     async getPastEventsForHub(
         extraTopics: string[],
         options: PastEventOptions,
-        names: EventName[] = ActiveManagerEvents
+        names: EventName[] = ActiveManagerEvents,
+        scanOptions: Partial<LogScanOptions> = {}
     ): Promise<EventData[]> {
         return await this._getPastEvents(
             this.relayHubInstance.contract,
             names,
             extraTopics,
-            options
+            options,
+            scanOptions
         );
     }
 
     async getPastEventsForStakeManagement(
         names: EventName[],
         extraTopics: string[],
-        options: PastEventOptions
+        options: PastEventOptions,
+        scanOptions: Partial<LogScanOptions> = {}
     ): Promise<EventData[]> {
         const relayHub = this.relayHubInstance;
         return await this._getPastEvents(
             relayHub.contract,
             names,
             extraTopics,
-            options
+            options,
+            scanOptions
+        );
+    }
+
+    /**
+     * Same as {@link getPastEventsForHub}, with the events decoded into {@link RelayHubEvent}
+     */
+    async getTypedPastEventsForHub(
+        extraTopics: string[],
+        options: PastEventOptions,
+        names: HubEventName[] = ActiveManagerEvents,
+        scanOptions: Partial<LogScanOptions> = {}
+    ): Promise<RelayHubEvent[]> {
+        const events = await this.getPastEventsForHub(
+            extraTopics,
+            options,
+            names,
+            scanOptions
+        );
+        return decodeHubEvents(events);
+    }
+
+    /**
+     * Same as {@link getPastEventsForStakeManagement}, with the events decoded into {@link RelayHubEvent}
+     */
+    async getTypedPastEventsForStakeManagement(
+        names: HubEventName[],
+        extraTopics: string[],
+        options: PastEventOptions,
+        scanOptions: Partial<LogScanOptions> = {}
+    ): Promise<RelayHubEvent[]> {
+        const events = await this.getPastEventsForStakeManagement(
+            names,
+            extraTopics,
+            options,
+            scanOptions
         );
+        return decodeHubEvents(events);
     }
 
-    // eslint-disable-next-line @typescript-eslint/require-await
     async _getPastEvents(
         contract: any,
         names: EventName[],
         extraTopics: string[],
-        options: PastEventOptions
+        options: PastEventOptions,
+        scanOptions: Partial<LogScanOptions> = {}
     ): Promise<EventData[]> {
         const topics: string[][] = [];
         const eventTopic = event2topic(contract, names);
@@ -713,9 +1296,16 @@ export default class ContractInteractor {
         if (extraTopics.length > 0) {
             topics.push(extraTopics);
         }
-        return contract.getPastEvents(
-            'allEvents',
-            Object.assign({}, options, { topics })
+        const { fromBlock, toBlock, ...filterOptions } = options;
+        const latestBlock = await this.getBlockNumber();
+        const scanner = new LogScanner(contract, {
+            windowSize: getLookupWindowSize(this.config),
+            ...scanOptions
+        });
+        return await scanner.scan(
+            resolveBlockNumber(fromBlock, latestBlock),
+            resolveBlockNumber(toBlock, latestBlock),
+            Object.assign({}, filterOptions, { topics })
         );
     }
 
@@ -741,11 +1331,21 @@ export default class ContractInteractor {
         return await this.web3.eth.estimateGas(transactionDetails);
     }
 
-    // TODO: cache response for some time to optimize. It doesn't make sense to optimize these requests in calling code.
+    /**
+     * @returns the gas price reported by the node, without caching or adjustments
+     */
     async getGasPrice(): Promise<string> {
         return await this.web3.eth.getGasPrice();
     }
 
+    /**
+     * @returns the gas price given by the {@link GasPriceOracle}, cached and already adjusted
+     * by the config's `gasPriceFactorPercent` and `minGasPrice`; not to be adjusted again
+     */
+    async getAdjustedGasPrice(): Promise<string> {
+        return await this.gasPriceOracle.getGasPrice();
+    }
+
     async getTransactionCount(
         address: string,
         defaultBlock?: BlockNumber
@@ -758,6 +1358,54 @@ export default class ContractInteractor {
         return await this.web3.eth.getTransaction(transactionHash);
     }
 
+    /**
+     * Decodes the request a worker sent in a relayCall/deployCall transaction,
+     * and links it to the TransactionRelayed or rejected event it produced.
+     * @throws if the transaction is unknown or is not a RelayHub call
+     */
+    async getRelayedTransaction(
+        transactionHash: PrefixedHexString
+    ): Promise<RelayedTransactionDetails> {
+        const transaction = await this.getTransaction(transactionHash);
+        if (transaction == null) {
+            throw new Error(`Transaction ${transactionHash} not found`);
+        }
+        const decoded = decodeHubTransaction(transaction);
+        const receipt: TransactionReceipt | null =
+            await this.web3.eth.getTransactionReceipt(transactionHash);
+        if (receipt == null) {
+            return { ...decoded, outcome: 'pending', events: [] };
+        }
+        const sigHash = keccak256(decoded.call.signature);
+        const events = decodeHubLogs(receipt.logs, decoded.relayHub).filter(
+            (
+                event
+            ): event is
+                | TransactionRelayedEvent
+                | TransactionRejectedByRecipientEvent =>
+                (event.event === TransactionRelayed ||
+                    event.event === TransactionRejectedByRecipient) &&
+                event.relayRequestSigHash === sigHash
+        );
+        let outcome: RelayedTransactionOutcome;
+        if (!receipt.status) {
+            outcome = 'reverted';
+        } else if (decoded.call.method === 'deployCall') {
+            outcome = 'deployed';
+        } else if (events.some((event) => event.event === TransactionRelayed)) {
+            outcome = 'relayed';
+        } else if (
+            events.some(
+                (event) => event.event === TransactionRejectedByRecipient
+            )
+        ) {
+            outcome = 'rejectedByRecipient';
+        } else {
+            outcome = 'noEvent';
+        }
+        return { ...decoded, outcome, receipt, events };
+    }
+
     async getBlock(
         blockHashOrBlockNumber: BlockNumber
     ): Promise<BlockTransactionString> {
@@ -784,6 +1432,13 @@ export default class ContractInteractor {
         return this.chainId;
     }
 
+    /**
+     * @returns the registered environment of the chain, or the default one for unknown chains
+     */
+    getEnvironment(): Environment {
+        return getEnvironmentByChainId(this.chainId) ?? defaultEnvironment;
+    }
+
     getNetworkId(): number {
         if (this.networkId == null) {
             throw new Error('_init not called');
@@ -943,6 +1598,81 @@ export default class ContractInteractor {
         await forwarder.verify(suffixData, request.request, signature);
     }
 
+    /**
+     * Reads the smart wallet state used by {@link verifyForwarderLocally}
+     * @param address - the smart wallet address
+     */
+    async getForwarderState(address: string): Promise<ForwarderState> {
+        const [nonce, ownerHash, domainSeparator] = await Promise.all([
+            this.getSenderNonce(address),
+            this.web3.eth.getStorageAt(address, SMART_WALLET_OWNER_SLOT),
+            this._getDomainSeparator(address)
+        ]);
+        return { nonce, ownerHash, domainSeparator };
+    }
+
+    /**
+     * @returns the domainSeparator of the smart wallet, undefined if it does not expose one
+     */
+    async _getDomainSeparator(
+        address: string
+    ): Promise<PrefixedHexString | undefined> {
+        try {
+            const result: unknown = await this.web3.eth.call({
+                to: address,
+                data: abi.encodeFunctionSignature('domainSeparator()')
+            });
+            return typeof result === 'string' && result.length === 66
+                ? result
+                : undefined;
+        } catch (e) {
+            log.debug(
+                `Contract Interactor - no domainSeparator on ${address}: ${
+                    (e as Error).message
+                }`
+            );
+            return undefined;
+        }
+    }
+
+    /**
+     * Runs the checks of {@link verifyForwarder} without calling the node, see {@link verifyForwardRequest}.
+     * @param state - known smart wallet state; checks that need missing values are skipped
+     * @param confirmOnChain - if the local checks pass, also call the smart wallet's verify
+     */
+    async verifyForwarderLocally(
+        suffixData: string,
+        request: RelayRequest,
+        signature: string,
+        state: ForwarderState = {},
+        confirmOnChain = false
+    ): Promise<ForwarderVerificationResult> {
+        const result = verifyForwardRequest(
+            this.getChainId(),
+            suffixData,
+            request,
+            signature,
+            state
+        );
+        if (!result.valid || !confirmOnChain) {
+            return result;
+        }
+        try {
+            await this.verifyForwarder(suffixData, request, signature);
+            return result;
+        } catch (e) {
+            return {
+                valid: false,
+                failedCheck: 'onChain',
+                message:
+                    e instanceof Error
+                        ? e.message
+                        : JSON.stringify(e, replaceErrors),
+                skippedChecks: result.skippedChecks
+            };
+        }
+    }
+
     async getERC20Token(
         address: string,
         options?: ERC20Options
@@ -965,30 +1695,144 @@ export default class ContractInteractor {
     }
 }
 
+/**
+ * @returns the functions of the ABI whose selector does not appear in the runtime code
+ */
+export function getMissingFunctions(
+    code: PrefixedHexString,
+    contractAbi: any[]
+): string[] {
+    const lowerCode = code.toLowerCase();
+    return contractAbi
+        .filter((item) => item.type === 'function')
+        .filter(
+            (item) =>
+                !lowerCode.includes(abi.encodeFunctionSignature(item).slice(2))
+        )
+        .map((item) => item.name);
+}
+
+/**
+ * Converts a block tag into a block number, so block ranges can be split.
+ * @param block - a block number or tag; missing, 'latest' and 'pending' resolve to {@param latestBlock}
+ * @param latestBlock - the current block number
+ */
+export function resolveBlockNumber(
+    block: BlockNumber | undefined,
+    latestBlock: number
+): number {
+    if (block == null || block === 'latest' || block === 'pending') {
+        return latestBlock;
+    }
+    if (block === 'earliest' || block === 'genesis') {
+        return 0;
+    }
+    if (typeof block === 'number') {
+        return block;
+    }
+    if (typeof block === 'string') {
+        const blockNumber = block.startsWith('0x')
+            ? parseInt(block, 16)
+            : parseInt(block, 10);
+        if (isNaN(blockNumber)) {
+            throw new Error(`Invalid block number: ${block}`);
+        }
+        return blockNumber;
+    }
+    return toBN(block.toString()).toNumber();
+}
+
+/**
+ * Chain parameters of {@link getRawTxOptions}, for the chains ethereumjs-common does not know
+ */
+export interface RawTxChainParams {
+    /**
+     * The ethereumjs-common chain the custom chain is based on, 'mainnet' by default
+     */
+    baseChain?: string;
+    /**
+     * Name of the custom chain
+     */
+    name?: string;
+    hardfork?: string;
+    /**
+     * Sign with EIP-155 replay protection; without it the hardfork must be older than spuriousDragon
+     */
+    eip155?: boolean;
+}
+
+const defaultHardfork = 'istanbul';
+const preEip155Hardfork = 'tangerineWhistle';
+
 /**
  * Ganache does not seem to enforce EIP-155 signature. Buidler does, though.
  * This is how {@link Transaction} constructor allows support for custom and private network.
  * @param chainId
  * @param networkId
  * @param chain
+ * @param params - the base chain, name, hardfork and EIP-155 setting of the custom chain
  * @return {{common: Common}}
  */
 export function getRawTxOptions(
     chainId: number,
     networkId: number,
-    chain?: string
+    chain?: string,
+    params: RawTxChainParams = {}
 ): TransactionOptions {
     if (chain == null || chain === 'main' || chain === 'private') {
         chain = 'mainnet';
     }
-    return {
-        common: Common.forCustomChain(
-            chain,
+    const eip155 = params.eip155 ?? true;
+    const hardfork =
+        params.hardfork ?? (eip155 ? defaultHardfork : preEip155Hardfork);
+    let common: Common;
+    try {
+        common = Common.forCustomChain(
+            params.baseChain ?? chain,
             {
+                name: params.name,
                 chainId,
                 networkId
             },
-            'istanbul'
-        )
-    };
+            hardfork
+        );
+    } catch (e) {
+        throw new Error(
+            `Invalid chain parameters for chainId ${chainId}: ${
+                (e as Error).message
+            }`
+        );
+    }
+    if (common.gteHardfork('spuriousDragon') !== eip155) {
+        throw new Error(
+            `Hardfork ${hardfork} ${
+                eip155 ? 'does not support' : 'enforces'
+            } EIP-155, which is ${
+                eip155 ? 'required' : 'disabled'
+            } for chainId ${chainId}`
+        );
+    }
+    return { common };
+}
+
+/**
+ * Checks that transactions signed with these options will be accepted by the node
+ * @throws if the options are for another chainId or networkId
+ */
+export function validateRawTxOptions(
+    options: TransactionOptions,
+    nodeChainId: number,
+    nodeNetworkId: number
+): void {
+    const common = options.common as Common;
+    if (common.chainId() !== nodeChainId) {
+        throw new Error(
+            `Transactions would be signed for chainId ${common.chainId()} but the node is on chainId ${nodeChainId}`
+        );
+    }
+    if (common.networkId() !== nodeNetworkId) {
+        throw new Error(
+            `Transactions would be signed for networkId ${common.networkId()} but the node is on networkId ${nodeNetworkId}`
+        );
+    }
 }
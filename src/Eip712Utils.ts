@@ -0,0 +1,139 @@
+import sigUtil, { EIP712TypedData } from 'eth-sig-util';
+import { PrefixedHexString } from 'ethereumjs-tx';
+import { toChecksumAddress } from 'web3-utils';
+import {
+    DeployRequest,
+    RelayRequest,
+    TypedDeployRequestData,
+    TypedRequestData
+} from '@rsksmart/rif-relay-contracts';
+
+import { isSameAddress } from './Utils';
+
+/**
+ * Builds the EIP-712 typed data a user signs for a relay request.
+ * @param chainId - chain the request is meant for
+ * @param verifyingContract - the smart wallet that verifies the signature, `relayData.callForwarder` by default
+ * @param relayRequest - the request to sign
+ */
+export function getRelayRequestTypedData(
+    chainId: number,
+    verifyingContract: string | undefined,
+    relayRequest: RelayRequest
+): TypedRequestData {
+    return new TypedRequestData(
+        chainId,
+        verifyingContract ?? relayRequest.relayData.callForwarder,
+        relayRequest
+    );
+}
+
+/**
+ * Builds the EIP-712 typed data a user signs for a smart wallet deploy request.
+ * @param chainId - chain the request is meant for
+ * @param verifyingContract - the wallet factory that verifies the signature, `relayData.callForwarder` by default
+ * @param deployRequest - the request to sign
+ */
+export function getDeployRequestTypedData(
+    chainId: number,
+    verifyingContract: string | undefined,
+    deployRequest: DeployRequest
+): TypedDeployRequestData {
+    return new TypedDeployRequestData(
+        chainId,
+        verifyingContract ?? deployRequest.relayData.callForwarder,
+        deployRequest
+    );
+}
+
+/**
+ * @returns the checksummed address that produced the signature
+ * @throws if the signature is malformed
+ */
+export function recoverTypedDataSigner(
+    typedData: EIP712TypedData,
+    signature: PrefixedHexString
+): string {
+    // @ts-ignore (the typings of eth-sig-util 2.1 lack the v4 methods)
+    const signer: string = sigUtil.recoverTypedSignature_v4({
+        data: typedData,
+        sig: signature
+    });
+    return toChecksumAddress(signer);
+}
+
+export function recoverRelayRequestSigner(
+    chainId: number,
+    verifyingContract: string | undefined,
+    relayRequest: RelayRequest,
+    signature: PrefixedHexString
+): string {
+    return recoverTypedDataSigner(
+        getRelayRequestTypedData(chainId, verifyingContract, relayRequest),
+        signature
+    );
+}
+
+export function recoverDeployRequestSigner(
+    chainId: number,
+    verifyingContract: string | undefined,
+    deployRequest: DeployRequest,
+    signature: PrefixedHexString
+): string {
+    return recoverTypedDataSigner(
+        getDeployRequestTypedData(chainId, verifyingContract, deployRequest),
+        signature
+    );
+}
+
+/**
+ * @returns true if the signature was produced by {@param expectedSigner}; false if not or if it is malformed
+ */
+export function verifyTypedDataSignature(
+    typedData: EIP712TypedData,
+    signature: PrefixedHexString,
+    expectedSigner: string
+): boolean {
+    try {
+        return isSameAddress(
+            recoverTypedDataSigner(typedData, signature),
+            expectedSigner
+        );
+    } catch (e) {
+        return false;
+    }
+}
+
+/**
+ * @returns true if the relay request was signed by `request.from`, or {@param expectedSigner} if given
+ */
+export function verifyRelayRequestSignature(
+    chainId: number,
+    verifyingContract: string | undefined,
+    relayRequest: RelayRequest,
+    signature: PrefixedHexString,
+    expectedSigner: string = relayRequest.request.from
+): boolean {
+    return verifyTypedDataSignature(
+        getRelayRequestTypedData(chainId, verifyingContract, relayRequest),
+        signature,
+        expectedSigner
+    );
+}
+
+/**
+ * @returns true if the deploy request was signed by `request.from`, or {@param expectedSigner} if given
+ */
+export function verifyDeployRequestSignature(
+    chainId: number,
+    verifyingContract: string | undefined,
+    deployRequest: DeployRequest,
+    signature: PrefixedHexString,
+    expectedSigner: string = deployRequest.request.from
+): boolean {
+    return verifyTypedDataSignature(
+        getDeployRequestTypedData(chainId, verifyingContract, deployRequest),
+        signature,
+        expectedSigner
+    );
+}
@@ -1,14 +1,65 @@
 /**
- * We will need some mechanism to support different constants and algorithms for different networks.
- * So far the only conflict we will have is migration to Istanbul, as ETC does not integrate it as of this writing.
- * TODO: see the differences between networks we want to support and make project structure multi-chain
+ * Per-network constants and algorithms, keyed by chainId.
+ * The RSK networks are registered by default; other chains can be added with {@link registerEnvironment}.
  */
-import { RelayHubConfiguration } from '@rsksmart/rif-relay-contracts';
+import {
+    ContractAddresses,
+    RelayHubConfiguration
+} from '@rsksmart/rif-relay-contracts';
+
+import {
+    CalldataPricing,
+    eip2028CalldataPricing,
+    rskCalldataPricing
+} from './CalldataCost';
+import { constants } from './Constants';
+import { defaultGasModelCoefficients, GasModelCoefficients } from './GasModel';
+
+export interface GasConstants extends CalldataPricing {
+    /**
+     * Cushion the gas estimations are multiplied by
+     */
+    estimatedGasCorrectionFactor: number;
+    /**
+     * Gas subtracted from the estimation of a call that will be made internally
+     */
+    internalTransactionEstimateCorrection: number;
+}
+
+/**
+ * Addresses of the Enveloping contracts known to be deployed on a network
+ */
+export interface EnvironmentDeployments {
+    relayHub?: string;
+    penalizer?: string;
+    smartWalletFactory?: string;
+    deployVerifier?: string;
+    relayVerifier?: string;
+    customSmartWalletFactory?: string;
+    customSmartWalletDeployVerifier?: string;
+    customSmartWalletRelayVerifier?: string;
+}
 
 export interface Environment {
+    readonly name: string;
     readonly chainId: number;
+    /**
+     * The ethereumjs-common hardfork used to sign transactions for this chain
+     */
+    readonly hardfork: string;
+    /**
+     * Whether transactions are signed with EIP-155 replay protection
+     */
+    readonly eip155: boolean;
+    /**
+     * Average time between blocks
+     */
+    readonly blockTimeMs: number;
     readonly mintxgascost: number;
     readonly relayHubConfiguration: RelayHubConfiguration;
+    readonly gasModel: GasModelCoefficients;
+    readonly gasConstants: GasConstants;
+    readonly deployments: EnvironmentDeployments;
 }
 
 const defaultRelayHubConfiguration: RelayHubConfiguration = {
@@ -18,33 +69,177 @@ const defaultRelayHubConfiguration: RelayHubConfiguration = {
     minimumEntryDepositValue: (1e18).toString()
 };
 
-export const environments: { [key: string]: Environment } = {
-    istanbul: {
-        chainId: 1,
+export const rskGasConstants: GasConstants = {
+    ...rskCalldataPricing,
+    estimatedGasCorrectionFactor: constants.ESTIMATED_GAS_CORRECTION_FACTOR,
+    internalTransactionEstimateCorrection:
+        constants.INTERNAL_TRANSACTION_ESTIMATE_CORRECTION
+};
+
+function getPublishedDeployments(chainId: number): EnvironmentDeployments {
+    const addresses = ContractAddresses[chainId];
+    if (addresses == null) {
+        return {};
+    }
+    return {
+        relayHub: addresses.relayHub,
+        penalizer: addresses.penalizer,
+        smartWalletFactory: addresses.smartWalletFactory,
+        deployVerifier: addresses.smartWalletDeployVerifier,
+        relayVerifier: addresses.smartWalletRelayVerifier,
+        customSmartWalletFactory: addresses.customSmartWalletFactory,
+        customSmartWalletDeployVerifier:
+            addresses.customSmartWalletDeployVerifier,
+        customSmartWalletRelayVerifier: addresses.customSmartWalletRelayVerifier
+    };
+}
+
+function createRskEnvironment(
+    name: string,
+    chainId: number,
+    blockTimeMs: number
+): Environment {
+    return {
+        name,
+        chainId,
+        hardfork: 'istanbul',
+        eip155: true,
+        blockTimeMs,
+        mintxgascost: constants.TRANSACTION_GAS_COST,
         relayHubConfiguration: defaultRelayHubConfiguration,
-        mintxgascost: 21000
-    },
-    constantinople: {
+        gasModel: defaultGasModelCoefficients,
+        gasConstants: rskGasConstants,
+        deployments: getPublishedDeployments(chainId)
+    };
+}
+
+/**
+ * The Ethereum mainnet environments of the previous versions, kept for their importers
+ */
+function createLegacyEthereumEnvironment(
+    name: string,
+    calldataPricing: CalldataPricing
+): Environment {
+    return {
+        name,
         chainId: 1,
+        hardfork: name,
+        eip155: true,
+        blockTimeMs: 13000,
+        mintxgascost: constants.TRANSACTION_GAS_COST,
         relayHubConfiguration: defaultRelayHubConfiguration,
-        mintxgascost: 21000
-    },
-    rsk: {
-        chainId: 33,
-        relayHubConfiguration: defaultRelayHubConfiguration,
-        mintxgascost: 21000
-    }
+        gasModel: defaultGasModelCoefficients,
+        gasConstants: { ...rskGasConstants, ...calldataPricing },
+        deployments: {}
+    };
+}
+
+const rskEnvironments = [
+    createRskEnvironment('rskMainnet', 30, 30000),
+    createRskEnvironment('rskTestnet', 31, 30000),
+    createRskEnvironment('rskRegtest', 33, 1000)
+];
+
+export const environments: { [key: string]: Environment } = {
+    rskMainnet: rskEnvironments[0],
+    rskTestnet: rskEnvironments[1],
+    rskRegtest: rskEnvironments[2],
+    /**
+     * @deprecated use rskRegtest
+     */
+    rsk: rskEnvironments[2],
+    /**
+     * @deprecated not registered, see {@link registerEnvironment}
+     */
+    istanbul: createLegacyEthereumEnvironment(
+        'istanbul',
+        eip2028CalldataPricing
+    ),
+    /**
+     * @deprecated not registered, see {@link registerEnvironment}
+     */
+    constantinople: createLegacyEthereumEnvironment(
+        'constantinople',
+        rskCalldataPricing
+    )
 };
 
-export const defaultEnvironment = environments.rsk;
+const rskChainIds = [30, 31, 33];
 
-export function getEnvironment(networkName: string): Environment {
-    if (networkName.startsWith('rsk')) {
-        return environments.rsk;
+const environmentsByChainId = new Map<number, Environment>();
+const environmentsByName = new Map<string, Environment>();
+
+/**
+ * Adds an environment to the registry
+ * @param replace - replace the environment registered with the same chainId, instead of failing
+ * @throws if the chainId or the name is already registered
+ */
+export function registerEnvironment(
+    environment: Environment,
+    replace = false
+): void {
+    const name = environment.name.toLowerCase();
+    const previous = environmentsByChainId.get(environment.chainId);
+    const sameName = environmentsByName.get(name);
+    if (!replace && previous != null) {
+        throw new Error(
+            `An environment is already registered for chainId ${environment.chainId}: ${previous.name}`
+        );
+    }
+    if (sameName != null && sameName !== previous) {
+        throw new Error(
+            `Environment name ${environment.name} is already used by chainId ${sameName.chainId}`
+        );
+    }
+    if (previous != null) {
+        environmentsByName.delete(previous.name.toLowerCase());
     }
-    return defaultEnvironment;
+    environmentsByChainId.set(environment.chainId, environment);
+    environmentsByName.set(name, environment);
+}
+
+/**
+ * Removes the environment registered for the chainId, if any
+ */
+export function unregisterEnvironment(chainId: number): void {
+    const environment = environmentsByChainId.get(chainId);
+    if (environment != null) {
+        environmentsByChainId.delete(chainId);
+        environmentsByName.delete(environment.name.toLowerCase());
+    }
+}
+
+rskEnvironments.forEach((environment) => registerEnvironment(environment));
+
+export const defaultEnvironment = environments.rskRegtest;
+
+export function getEnvironmentByChainId(
+    chainId: number
+): Environment | undefined {
+    return environmentsByChainId.get(chainId);
+}
+
+export function getEnvironmentByName(name: string): Environment | undefined {
+    return environmentsByName.get(name.toLowerCase());
+}
+
+export function getEnvironments(): Environment[] {
+    return Array.from(environmentsByChainId.values());
+}
+
+/**
+ * @returns the environment registered with this name, the RSK regtest one for
+ * other names starting with 'rsk', or the default environment
+ */
+export function getEnvironment(networkName: string): Environment {
+    return (
+        getEnvironmentByName(networkName) ??
+        (networkName.startsWith('rsk')
+            ? environments.rskRegtest
+            : defaultEnvironment)
+    );
 }
 
 export function isRsk(environment: Environment): boolean {
-    return environment.chainId === 33;
+    return rskChainIds.includes(environment.chainId);
 }
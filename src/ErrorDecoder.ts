@@ -0,0 +1,286 @@
+import web3Abi, { AbiCoder } from 'web3-eth-abi';
+import { AbiInput } from 'web3-utils';
+import { PrefixedHexString } from 'ethereumjs-tx';
+import * as contracts from '@rsksmart/rif-relay-contracts';
+
+import replaceErrors from './ErrorReplacerJSON';
+
+// the default export is an AbiCoder instance, the typings declare it as the module
+const abi = web3Abi as unknown as AbiCoder;
+
+export const ERROR_SELECTOR = '0x08c379a0';
+export const PANIC_SELECTOR = '0x4e487b71';
+
+/**
+ * Descriptions of the solidity `Panic(uint256)` codes
+ */
+export const PanicReasons: { [code: number]: string } = {
+    0x00: 'generic compiler panic',
+    0x01: 'assertion failed',
+    0x11: 'arithmetic overflow or underflow',
+    0x12: 'division or modulo by zero',
+    0x21: 'invalid enum value',
+    0x22: 'invalid storage byte array encoding',
+    0x31: 'pop on empty array',
+    0x32: 'array index out of bounds',
+    0x41: 'out of memory',
+    0x51: 'call to a zero-initialized function'
+};
+
+export interface CustomErrorAbi {
+    type: 'error';
+    name: string;
+    inputs: AbiInput[];
+}
+
+/**
+ * - error: `Error(string)`, as thrown by `require` and `revert`
+ * - panic: `Panic(uint256)`, as thrown by `assert` and checked arithmetic
+ * - custom: a custom error found in the registered ABIs
+ * - unknown: revert data that could not be decoded
+ * - message: no revert data was found, the reason is taken from the error message
+ */
+export type RevertKind = 'error' | 'panic' | 'custom' | 'unknown' | 'message';
+
+export interface DecodedRevert {
+    kind: RevertKind;
+    reason: string;
+    data?: PrefixedHexString;
+    selector?: string;
+    panicCode?: number;
+    errorName?: string;
+    errorArgs?: { [key: string]: any };
+}
+
+const revertMessagePatterns: RegExp[] = [
+    // ganache
+    /VM Exception while processing transaction: (?:reverted with reason string '([\s\S]*)'|revert ?([\s\S]*))$/,
+    // RSKj
+    /VM execution error: (?:transaction reverted|revert)?[: ]*([\s\S]*)$/,
+    // geth and compatible nodes
+    /execution reverted:? ?([\s\S]*)$/,
+    /reverted with reason string '([\s\S]*)'/,
+    /revert(?:ed)?:? ([\s\S]*)$/
+];
+
+function isHexData(value: unknown): value is PrefixedHexString {
+    return (
+        typeof value === 'string' &&
+        /^0x([0-9a-fA-F]{2})*$/.test(value) &&
+        value.length >= 10
+    );
+}
+
+function getErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+        return error.message;
+    }
+    if (typeof error === 'string') {
+        return error;
+    }
+    if (typeof (error as any)?.message === 'string') {
+        return (error as any).message;
+    }
+    return JSON.stringify(error, replaceErrors);
+}
+
+/**
+ * Finds the revert data in the shapes the nodes and providers return it:
+ * `error.data` as a hex string, ganache's `{ [txHash]: { return } }` map,
+ * nested `error.data.data`/`error.error`, or a JSON-RPC error embedded in the message.
+ */
+export function extractRevertData(
+    error: unknown
+): PrefixedHexString | undefined {
+    if (error == null) {
+        return undefined;
+    }
+    if (isHexData(error)) {
+        return error;
+    }
+    if (typeof error === 'object') {
+        const { data, error: inner, result } = error as any;
+        if (isHexData(data)) {
+            return data;
+        }
+        if (isHexData(result)) {
+            return result;
+        }
+        if (data != null && typeof data === 'object') {
+            if (isHexData(data.data) || isHexData(data.return)) {
+                return extractRevertData(data);
+            }
+            // ganache: { [txHash]: { error: 'revert', return: '0x...', reason } }
+            for (const value of Object.values(data)) {
+                if (isHexData((value as any)?.return)) {
+                    return (value as any).return;
+                }
+            }
+            const nested = extractRevertData(data);
+            if (nested != null) {
+                return nested;
+            }
+        }
+        if (isHexData((error as any).return)) {
+            return (error as any).return;
+        }
+        if (inner != null && inner !== error) {
+            const nested = extractRevertData(inner);
+            if (nested != null) {
+                return nested;
+            }
+        }
+    }
+    const message = getErrorMessage(error);
+    const jsonStart = message.indexOf('{');
+    if (jsonStart !== -1) {
+        try {
+            const embedded = JSON.parse(message.slice(jsonStart));
+            return extractRevertData(embedded);
+        } catch (e) {
+            // not a JSON-RPC error body
+        }
+    }
+    return undefined;
+}
+
+/**
+ * @returns the revert reason the node wrote in the error message, if any
+ */
+export function extractRevertMessage(error: unknown): string | undefined {
+    const message = getErrorMessage(error)
+        .replace(/^Returned error: /, '')
+        .trim();
+    for (const pattern of revertMessagePatterns) {
+        const match = message.match(pattern);
+        if (match != null) {
+            const reason = (match[1] ?? match[2] ?? '').trim();
+            return reason !== '' ? reason : undefined;
+        }
+    }
+    return undefined;
+}
+
+function toCanonicalType(input: AbiInput): string {
+    if (input.type.startsWith('tuple')) {
+        const components = (input.components ?? []).map(toCanonicalType);
+        return `(${components.join(',')})${input.type.slice('tuple'.length)}`;
+    }
+    return input.type;
+}
+
+function getDefaultErrorAbis(): CustomErrorAbi[] {
+    return Object.values(contracts)
+        .map((artifact: any) => artifact?.abi)
+        .filter(Array.isArray)
+        .reduce<CustomErrorAbi[]>(
+            (errors, abiItems: any[]) =>
+                errors.concat(abiItems.filter((item) => item.type === 'error')),
+            []
+        );
+}
+
+/**
+ * Decodes the revert data of failed calls: `Error(string)`, `Panic(uint256)` and
+ * the custom errors of the rif-relay-contracts ABIs, plus any ABI registered later.
+ * When a node does not return the revert data, the reason is parsed from the
+ * error message formats of RSKj, ganache and geth.
+ */
+export class ErrorDecoder {
+    private readonly customErrors = new Map<string, CustomErrorAbi>();
+
+    constructor(errorAbis: CustomErrorAbi[] = getDefaultErrorAbis()) {
+        this.registerErrors(errorAbis);
+    }
+
+    /**
+     * Registers the custom errors of an ABI; other ABI items are ignored
+     */
+    registerErrors(abiItems: Array<{ type?: string }>): void {
+        abiItems
+            .filter((item): item is CustomErrorAbi => item.type === 'error')
+            .forEach((item) => {
+                this.customErrors.set(this.getSelector(item), item);
+            });
+    }
+
+    getSelector(errorAbi: CustomErrorAbi): string {
+        return abi.encodeFunctionSignature(
+            `${errorAbi.name}(${errorAbi.inputs
+                .map(toCanonicalType)
+                .join(',')})`
+        );
+    }
+
+    decodeRevertData(data: PrefixedHexString): DecodedRevert {
+        const selector = data.slice(0, 10).toLowerCase();
+        const params = '0x' + data.slice(10);
+        try {
+            if (selector === ERROR_SELECTOR) {
+                const reason: string = abi.decodeParameter(
+                    'string',
+                    params
+                ) as any;
+                return { kind: 'error', reason, data, selector };
+            }
+            if (selector === PANIC_SELECTOR) {
+                const panicCode = parseInt(
+                    abi.decodeParameter('uint256', params) as any
+                );
+                const description =
+                    PanicReasons[panicCode] ?? 'unknown panic code';
+                return {
+                    kind: 'panic',
+                    reason: `Panic(0x${panicCode.toString(
+                        16
+                    )}): ${description}`,
+                    data,
+                    selector,
+                    panicCode
+                };
+            }
+            const customError = this.customErrors.get(selector);
+            if (customError != null) {
+                const errorArgs = abi.decodeParameters(
+                    customError.inputs,
+                    params
+                );
+                const args = customError.inputs
+                    .map((_, i) => String(errorArgs[i]))
+                    .join(', ');
+                return {
+                    kind: 'custom',
+                    reason: `${customError.name}(${args})`,
+                    data,
+                    selector,
+                    errorName: customError.name,
+                    errorArgs
+                };
+            }
+        } catch (e) {
+            // malformed parameters, reported as unknown below
+        }
+        return {
+            kind: 'unknown',
+            reason: `Unknown revert data ${data}`,
+            data,
+            selector
+        };
+    }
+
+    /**
+     * Decodes the revert reason of an error thrown by a call or transaction
+     */
+    decodeError(error: unknown): DecodedRevert {
+        const data = extractRevertData(error);
+        if (data != null) {
+            return this.decodeRevertData(data);
+        }
+        return {
+            kind: 'message',
+            reason: extractRevertMessage(error) ?? getErrorMessage(error)
+        };
+    }
+}
+
+export const defaultErrorDecoder = new ErrorDecoder();
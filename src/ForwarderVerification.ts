@@ -0,0 +1,184 @@
+import BN from 'bn.js';
+import { TypedDataUtils } from 'eth-sig-util';
+import { PrefixedHexString } from 'ethereumjs-tx';
+import { bufferToHex } from 'ethereumjs-util';
+import { soliditySha3, toBN } from 'web3-utils';
+import {
+    getDomainSeparatorHash,
+    RelayRequest
+} from '@rsksmart/rif-relay-contracts';
+
+import {
+    getRelayRequestTypedData,
+    recoverTypedDataSigner
+} from './Eip712Utils';
+import { isSameAddress } from './Utils';
+
+/**
+ * Storage slot where the SmartWallet keeps keccak256(owner):
+ * bytes32(uint256(keccak256('eip1967.proxy.owner')) - 1)
+ */
+export const SMART_WALLET_OWNER_SLOT =
+    '0xa7b53796fd2d99cb1f5ae019b54f9e024446c3d12b483f733ccc62ed04eb126a';
+
+export type ForwarderCheck =
+    | 'domain'
+    | 'suffixData'
+    | 'signature'
+    | 'owner'
+    | 'nonce'
+    | 'expiration'
+    | 'onChain';
+
+/**
+ * On-chain state of the smart wallet the checks are run against.
+ * Checks whose state is missing are skipped.
+ */
+export interface ForwarderState {
+    nonce?: BN | number | string;
+    /**
+     * keccak256 of the owner address, as stored in {@link SMART_WALLET_OWNER_SLOT}
+     */
+    ownerHash?: PrefixedHexString;
+    owner?: string;
+    domainSeparator?: PrefixedHexString;
+}
+
+export interface ForwarderVerificationResult {
+    valid: boolean;
+    failedCheck?: ForwarderCheck;
+    message?: string;
+    skippedChecks: ForwarderCheck[];
+}
+
+export function getOwnerHash(owner: string): PrefixedHexString {
+    return soliditySha3({ t: 'address', v: owner }) as PrefixedHexString;
+}
+
+/**
+ * @returns the suffixData the forwarder expects for this request, the EIP-712 hash of its relayData
+ */
+export function getRelayDataHash(
+    chainId: number,
+    relayRequest: RelayRequest
+): PrefixedHexString {
+    const typedData = getRelayRequestTypedData(
+        chainId,
+        undefined,
+        relayRequest
+    );
+    return bufferToHex(
+        TypedDataUtils.hashStruct(
+            'RelayData',
+            relayRequest.relayData,
+            typedData.types
+        )
+    );
+}
+
+/**
+ * Runs locally the checks IForwarder.verify (and execute) does on a relay request,
+ * so invalid requests can be rejected without calling the node.
+ *
+ * @param chainId - chain the smart wallet is deployed on
+ * @param suffixData - the suffixData that will be sent to the forwarder
+ * @param relayRequest - the request; `relayData.callForwarder` is the smart wallet
+ * @param signature - the user signature of the request
+ * @param state - known on-chain state of the smart wallet
+ * @param now - current time in seconds, to check `validUntilTime`
+ */
+export function verifyForwardRequest(
+    chainId: number,
+    suffixData: PrefixedHexString,
+    relayRequest: RelayRequest,
+    signature: PrefixedHexString,
+    state: ForwarderState = {},
+    now: number = Math.floor(Date.now() / 1000)
+): ForwarderVerificationResult {
+    const skippedChecks: ForwarderCheck[] = [];
+    const fail = (
+        failedCheck: ForwarderCheck,
+        message: string
+    ): ForwarderVerificationResult => ({
+        valid: false,
+        failedCheck,
+        message,
+        skippedChecks
+    });
+    const { request, relayData } = relayRequest;
+
+    if (state.domainSeparator == null) {
+        skippedChecks.push('domain');
+    } else {
+        const expected = getDomainSeparatorHash(
+            relayData.callForwarder,
+            chainId
+        );
+        if (state.domainSeparator.toLowerCase() !== expected.toLowerCase()) {
+            return fail(
+                'domain',
+                `Domain separator ${state.domainSeparator} does not match ${expected} for chain ${chainId}`
+            );
+        }
+    }
+
+    const expectedSuffixData = getRelayDataHash(chainId, relayRequest);
+    if (suffixData.toLowerCase() !== expectedSuffixData.toLowerCase()) {
+        return fail(
+            'suffixData',
+            `Suffix data ${suffixData} does not match the relay data hash ${expectedSuffixData}`
+        );
+    }
+
+    let signer: string;
+    try {
+        signer = recoverTypedDataSigner(
+            getRelayRequestTypedData(chainId, undefined, relayRequest),
+            signature
+        );
+    } catch (e) {
+        return fail(
+            'signature',
+            `Malformed signature: ${(e as Error).message}`
+        );
+    }
+    if (!isSameAddress(signer, request.from)) {
+        return fail(
+            'signature',
+            `Signature mismatch: signed by ${signer}, expected ${request.from}`
+        );
+    }
+
+    if (state.ownerHash == null && state.owner == null) {
+        skippedChecks.push('owner');
+    } else {
+        const ownerHash = state.ownerHash ?? getOwnerHash(state.owner ?? '');
+        if (getOwnerHash(request.from) !== ownerHash.toLowerCase()) {
+            return fail(
+                'owner',
+                `${request.from} is not the owner of the SmartWallet`
+            );
+        }
+    }
+
+    if (state.nonce == null) {
+        skippedChecks.push('nonce');
+    } else if (!toBN(request.nonce).eq(toBN(state.nonce.toString()))) {
+        return fail(
+            'nonce',
+            `Nonce mismatch: request has ${
+                request.nonce
+            }, smart wallet expects ${state.nonce.toString()}`
+        );
+    }
+
+    const validUntilTime = toBN(request.validUntilTime ?? '0');
+    if (!validUntilTime.isZero() && validUntilTime.lte(toBN(now))) {
+        return fail(
+            'expiration',
+            `Request expired at ${validUntilTime.toString()}, now is ${now}`
+        );
+    }
+
+    return { valid: true, skippedChecks };
+}
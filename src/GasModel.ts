@@ -0,0 +1,254 @@
+import BN from 'bn.js';
+import web3Abi, { AbiCoder } from 'web3-eth-abi';
+import { toBN } from 'web3-utils';
+import { TransactionReceipt } from 'web3-core';
+import { IRelayHub, RelayRequest } from '@rsksmart/rif-relay-contracts';
+
+import { constants } from './Constants';
+import { TransactionRelayed } from './RelayHubEvents';
+
+const abi = web3Abi as unknown as AbiCoder;
+
+/**
+ * y = intercept + slope * x
+ */
+export interface LinearGasCoefficients {
+    intercept: number;
+    slope: number;
+}
+
+export interface GasModelCoefficients {
+    /**
+     * Relay calls without token payment, x is the gas sent to the destination
+     */
+    subsidizedRelay: LinearGasCoefficients;
+    /**
+     * Relay calls with token payment, x is the gas sent to the destination plus the token gas
+     */
+    sponsoredRelay: LinearGasCoefficients;
+    /**
+     * Gas added to the estimation of deploys without token payment
+     */
+    subsidizedDeployOverhead: number;
+}
+
+/**
+ * Coefficients fitted on RSKJ before they were made configurable
+ */
+export const defaultGasModelCoefficients: GasModelCoefficients = {
+    subsidizedRelay: { intercept: 85090.977, slope: 1.067 },
+    sponsoredRelay: { intercept: 72530.9611, slope: 1.1114 },
+    subsidizedDeployOverhead: 12000
+};
+
+/**
+ * Predicts the gas consumed by relay and deploy calls from the gas of their inner calls
+ */
+export class GasModel {
+    /**
+     * @param estimatedGasCorrectionFactor - the cushion of the estimations, see {@link GasConstants}
+     */
+    constructor(
+        readonly coefficients: GasModelCoefficients = defaultGasModelCoefficients,
+        readonly estimatedGasCorrectionFactor: number = constants.ESTIMATED_GAS_CORRECTION_FACTOR
+    ) {}
+
+    /**
+     * @returns maximum possible gas consumption by a relay call
+     */
+    estimateMaxPossibleRelayGas(
+        relayCallGasLimit: number,
+        tokenPaymentGas: number,
+        addCushion = false
+    ): number {
+        const cushion = addCushion ? this.estimatedGasCorrectionFactor : 1.0;
+        const estimatedCost = toBN(tokenPaymentGas).isZero()
+            ? predict(this.coefficients.subsidizedRelay, relayCallGasLimit)
+            : predict(
+                  this.coefficients.sponsoredRelay,
+                  relayCallGasLimit + tokenPaymentGas
+              );
+        return Math.ceil(estimatedCost * cushion);
+    }
+
+    /**
+     * @returns maximum possible gas consumption by a deploy call
+     */
+    estimateMaxPossibleDeployGas(
+        estimatedDeployGas: string,
+        estimatedTokenPaymentGas?: string
+    ): BN {
+        if (
+            estimatedTokenPaymentGas == null ||
+            toBN(estimatedTokenPaymentGas).isZero()
+        ) {
+            // Subsidized case
+            return toBN(estimatedDeployGas).add(
+                toBN(this.coefficients.subsidizedDeployOverhead)
+            );
+        }
+        return toBN(estimatedDeployGas);
+    }
+}
+
+function predict(coefficients: LinearGasCoefficients, x: number): number {
+    return coefficients.intercept + coefficients.slope * x;
+}
+
+export interface GasSample {
+    x: number;
+    gasUsed: number;
+}
+
+export interface LinearGasFit {
+    coefficients: LinearGasCoefficients;
+    samples: number;
+    rSquared: number;
+    meanAbsoluteError: number;
+    /**
+     * Standard deviation of the residuals (gasUsed - prediction)
+     */
+    residualStdDev: number;
+    /**
+     * Largest amount by which the fit predicted less gas than was used
+     */
+    maxUnderestimate: number;
+    /**
+     * Largest amount by which the fit predicted more gas than was used
+     */
+    maxOverestimate: number;
+}
+
+/**
+ * Fits gasUsed = intercept + slope * x by ordinary least squares
+ * @throws if there are fewer than two samples or all of them have the same x
+ */
+export function fitLinearGas(samples: GasSample[]): LinearGasFit {
+    const n = samples.length;
+    if (n < 2) {
+        throw new Error(
+            `At least two samples are needed to fit the gas model, got ${n}`
+        );
+    }
+    const meanX = samples.reduce((sum, { x }) => sum + x, 0) / n;
+    const meanY = samples.reduce((sum, { gasUsed }) => sum + gasUsed, 0) / n;
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    samples.forEach(({ x, gasUsed }) => {
+        covariance += (x - meanX) * (gasUsed - meanY);
+        varianceX += (x - meanX) ** 2;
+        varianceY += (gasUsed - meanY) ** 2;
+    });
+    if (varianceX === 0) {
+        throw new Error(
+            'Cannot fit the gas model: all samples have the same gas limit'
+        );
+    }
+    const slope = covariance / varianceX;
+    const coefficients = { intercept: meanY - slope * meanX, slope };
+
+    const residuals = samples.map(
+        ({ x, gasUsed }) => gasUsed - predict(coefficients, x)
+    );
+    const squaredError = residuals.reduce((sum, r) => sum + r ** 2, 0);
+    return {
+        coefficients,
+        samples: n,
+        rSquared: varianceY === 0 ? 1 : 1 - squaredError / varianceY,
+        meanAbsoluteError:
+            residuals.reduce((sum, r) => sum + Math.abs(r), 0) / n,
+        residualStdDev: n > 2 ? Math.sqrt(squaredError / (n - 2)) : 0,
+        maxUnderestimate: Math.max(0, ...residuals),
+        maxOverestimate: Math.max(0, ...residuals.map((r) => -r))
+    };
+}
+
+/**
+ * A relayed transaction: its receipt and the request it carried
+ */
+export interface RelayedTransactionObservation {
+    receipt: TransactionReceipt;
+    relayRequest: RelayRequest;
+}
+
+export interface GasModelCalibration {
+    /**
+     * The fitted coefficients; the ones without samples are taken from the base model
+     */
+    coefficients: GasModelCoefficients;
+    subsidizedRelay?: LinearGasFit;
+    sponsoredRelay?: LinearGasFit;
+    /**
+     * Observations ignored because the receipt has no TransactionRelayed event from the hub
+     */
+    skipped: number;
+}
+
+const transactionRelayedTopic: string = abi.encodeEventSignature(
+    IRelayHub.abi.find(
+        (item: { type: string; name?: string }) =>
+            item.type === 'event' && item.name === TransactionRelayed
+    )
+);
+
+/**
+ * @returns true if the relay hub (the receipt's `to`) emitted TransactionRelayed,
+ * i.e. the relayed call did not revert
+ */
+export function isSuccessfulRelayReceipt(receipt: TransactionReceipt): boolean {
+    return (
+        receipt.status &&
+        receipt.logs.some(
+            (log) =>
+                log.address.toLowerCase() === receipt.to?.toLowerCase() &&
+                log.topics[0] === transactionRelayedTopic
+        )
+    );
+}
+
+/**
+ * Fits new relay coefficients from relayed transactions, separately for the
+ * subsidized and the token paying ones, and reports the error of each fit.
+ * Groups with fewer than {@link minSamples} observations keep the base coefficients.
+ */
+export function calibrateGasModel(
+    observations: RelayedTransactionObservation[],
+    base: GasModelCoefficients = defaultGasModelCoefficients,
+    minSamples = 2
+): GasModelCalibration {
+    const subsidized: GasSample[] = [];
+    const sponsored: GasSample[] = [];
+    let skipped = 0;
+    observations.forEach(({ receipt, relayRequest }) => {
+        if (!isSuccessfulRelayReceipt(receipt)) {
+            skipped++;
+            return;
+        }
+        const { gas, tokenGas } = relayRequest.request;
+        if (toBN(tokenGas).isZero()) {
+            subsidized.push({ x: parseInt(gas), gasUsed: receipt.gasUsed });
+        } else {
+            sponsored.push({
+                x: parseInt(gas) + parseInt(tokenGas),
+                gasUsed: receipt.gasUsed
+            });
+        }
+    });
+
+    const subsidizedRelay =
+        subsidized.length >= minSamples ? fitLinearGas(subsidized) : undefined;
+    const sponsoredRelay =
+        sponsored.length >= minSamples ? fitLinearGas(sponsored) : undefined;
+    return {
+        coefficients: {
+            ...base,
+            subsidizedRelay:
+                subsidizedRelay?.coefficients ?? base.subsidizedRelay,
+            sponsoredRelay: sponsoredRelay?.coefficients ?? base.sponsoredRelay
+        },
+        subsidizedRelay,
+        sponsoredRelay,
+        skipped
+    };
+}
@@ -0,0 +1,267 @@
+import Web3 from 'web3';
+import BN from 'bn.js';
+import log from 'loglevel';
+import { toBN } from 'web3-utils';
+
+import { EnvelopingConfig } from './types/EnvelopingConfig';
+
+/**
+ * A source of a raw (unadjusted) network gas price.
+ * The {@link GasPriceOracle} applies caching, the configured factor and the floor/cap on top of it.
+ */
+export interface GasPriceStrategy {
+    readonly name: string;
+    getGasPrice(): Promise<BN>;
+}
+
+/**
+ * Uses the price reported by the node through `eth_gasPrice`.
+ */
+export class NodeGasPriceStrategy implements GasPriceStrategy {
+    readonly name = 'node';
+
+    constructor(private readonly web3: Web3) {}
+
+    async getGasPrice(): Promise<BN> {
+        return toBN(await this.web3.eth.getGasPrice());
+    }
+}
+
+/**
+ * Always returns the same gas price, useful for regtest and for operators that price manually.
+ */
+export class FixedGasPriceStrategy implements GasPriceStrategy {
+    readonly name = 'fixed';
+    private readonly gasPrice: BN;
+
+    constructor(gasPrice: BN | number | string) {
+        this.gasPrice = toBN(gasPrice.toString());
+    }
+
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async getGasPrice(): Promise<BN> {
+        return this.gasPrice;
+    }
+}
+
+export interface PercentileGasPriceOptions {
+    /**
+     * How many of the most recent blocks are sampled
+     */
+    blockCount: number;
+    /**
+     * Percentile (0-100) of the sampled transaction gas prices to use
+     */
+    percentile: number;
+}
+
+const defaultPercentileOptions: PercentileGasPriceOptions = {
+    blockCount: 20,
+    percentile: 60
+};
+
+/**
+ * Takes a percentile of the gas prices paid by the transactions included in the latest blocks.
+ * Falls back to `fallback` (the node price by default) when the sampled blocks are empty.
+ */
+export class PercentileGasPriceStrategy implements GasPriceStrategy {
+    readonly name = 'percentile';
+    private readonly options: PercentileGasPriceOptions;
+    private readonly fallback: GasPriceStrategy;
+
+    constructor(
+        private readonly web3: Web3,
+        options: Partial<PercentileGasPriceOptions> = {},
+        fallback?: GasPriceStrategy
+    ) {
+        this.options = { ...defaultPercentileOptions, ...options };
+        if (this.options.percentile < 0 || this.options.percentile > 100) {
+            throw new Error(
+                `Invalid percentile ${this.options.percentile}, must be between 0 and 100`
+            );
+        }
+        if (this.options.blockCount < 1) {
+            throw new Error(
+                `Invalid block count ${this.options.blockCount}, must be at least 1`
+            );
+        }
+        this.fallback = fallback ?? new NodeGasPriceStrategy(web3);
+    }
+
+    async getGasPrice(): Promise<BN> {
+        const latest = await this.web3.eth.getBlockNumber();
+        const first = Math.max(0, latest - this.options.blockCount + 1);
+        const blockNumbers: number[] = [];
+        for (let blockNumber = first; blockNumber <= latest; blockNumber++) {
+            blockNumbers.push(blockNumber);
+        }
+        const blocks = await Promise.all(
+            blockNumbers.map((blockNumber) =>
+                this.web3.eth.getBlock(blockNumber, true)
+            )
+        );
+        const prices: BN[] = [];
+        blocks.forEach((block) => {
+            block?.transactions?.forEach((tx) => {
+                if (tx.gasPrice != null) {
+                    prices.push(toBN(tx.gasPrice));
+                }
+            });
+        });
+        if (prices.length === 0) {
+            log.debug(
+                `GasPriceOracle - no transactions in blocks ${first}-${latest}, using ${this.fallback.name} strategy`
+            );
+            return await this.fallback.getGasPrice();
+        }
+        return percentileOf(prices, this.options.percentile);
+    }
+}
+
+/**
+ * @returns the value at the given percentile using the nearest-rank method
+ */
+export function percentileOf(values: BN[], percentile: number): BN {
+    if (values.length === 0) {
+        throw new Error('Cannot calculate the percentile of an empty list');
+    }
+    const sorted = [...values].sort((a, b) => a.cmp(b));
+    const rank = Math.ceil((percentile / 100) * sorted.length);
+    return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+export interface GasPriceOracleOptions {
+    /**
+     * Milliseconds a fetched price stays valid. Use 0 to disable the time based expiration
+     */
+    maxAgeMs: number;
+    /**
+     * Number of new blocks after which a fetched price is discarded. Use 0 to disable the block based expiration.
+     * With both expirations disabled, the price is not cached.
+     */
+    maxAgeBlocks: number;
+    /**
+     * Gas price never returned above this value, if set
+     */
+    maxGasPrice?: BN | number | string;
+}
+
+const defaultOracleOptions: GasPriceOracleOptions = {
+    maxAgeMs: 30000,
+    maxAgeBlocks: 0
+};
+
+interface CachedGasPrice {
+    gasPrice: BN;
+    fetchedAt: number;
+    blockNumber?: number;
+}
+
+/**
+ * Returns the gas price to use for relayed transactions.
+ *
+ * The raw price from the {@link GasPriceStrategy} is increased by `gasPriceFactorPercent`,
+ * raised to `minGasPrice` if lower and capped to `maxGasPrice` if set.
+ * Results are cached until `maxAgeMs` elapses or `maxAgeBlocks` new blocks are mined,
+ * not at all if both are 0, and concurrent callers share the same in-flight request.
+ */
+export class GasPriceOracle {
+    readonly strategy: GasPriceStrategy;
+    private readonly options: GasPriceOracleOptions;
+    private cached?: CachedGasPrice;
+    private pending?: Promise<CachedGasPrice>;
+
+    constructor(
+        private readonly web3: Web3,
+        private readonly config: Pick<
+            EnvelopingConfig,
+            'minGasPrice' | 'gasPriceFactorPercent'
+        >,
+        strategy?: GasPriceStrategy,
+        options: Partial<GasPriceOracleOptions> = {}
+    ) {
+        this.strategy = strategy ?? new NodeGasPriceStrategy(web3);
+        this.options = { ...defaultOracleOptions, ...options };
+    }
+
+    async getGasPrice(): Promise<string> {
+        const cached = await this._getCachedOrFetch();
+        return this.applyLimits(cached.gasPrice).toString();
+    }
+
+    /**
+     * Discards the cached price so the next call hits the strategy again
+     */
+    invalidate(): void {
+        this.cached = undefined;
+    }
+
+    /**
+     * Applies `gasPriceFactorPercent`, `minGasPrice` and `maxGasPrice` to a raw gas price
+     */
+    applyLimits(rawGasPrice: BN): BN {
+        const factor = toBN(100 + this.config.gasPriceFactorPercent);
+        let gasPrice = rawGasPrice.mul(factor).divn(100);
+        const minGasPrice = toBN(this.config.minGasPrice ?? 0);
+        if (gasPrice.lt(minGasPrice)) {
+            gasPrice = minGasPrice;
+        }
+        if (this.options.maxGasPrice != null) {
+            const maxGasPrice = toBN(this.options.maxGasPrice.toString());
+            if (gasPrice.gt(maxGasPrice)) {
+                log.warn(
+                    `GasPriceOracle - gas price ${gasPrice.toString()} capped to ${maxGasPrice.toString()}`
+                );
+                gasPrice = maxGasPrice;
+            }
+        }
+        return gasPrice;
+    }
+
+    async _getCachedOrFetch(): Promise<CachedGasPrice> {
+        if (this.cached != null && !(await this._isExpired(this.cached))) {
+            return this.cached;
+        }
+        if (this.pending == null) {
+            this.pending = this._fetch().finally(() => {
+                this.pending = undefined;
+            });
+        }
+        return await this.pending;
+    }
+
+    async _fetch(): Promise<CachedGasPrice> {
+        const [gasPrice, blockNumber] = await Promise.all([
+            this.strategy.getGasPrice(),
+            this.options.maxAgeBlocks > 0
+                ? this.web3.eth.getBlockNumber()
+                : Promise.resolve(undefined)
+        ]);
+        this.cached = { gasPrice, blockNumber, fetchedAt: Date.now() };
+        log.debug(
+            `GasPriceOracle - fetched gas price ${gasPrice.toString()} using ${
+                this.strategy.name
+            } strategy`
+        );
+        return this.cached;
+    }
+
+    async _isExpired(cached: CachedGasPrice): Promise<boolean> {
+        if (this.options.maxAgeMs === 0 && this.options.maxAgeBlocks === 0) {
+            return true;
+        }
+        if (
+            this.options.maxAgeMs > 0 &&
+            Date.now() - cached.fetchedAt >= this.options.maxAgeMs
+        ) {
+            return true;
+        }
+        if (this.options.maxAgeBlocks > 0 && cached.blockNumber != null) {
+            const blockNumber = await this.web3.eth.getBlockNumber();
+            return (
+                blockNumber - cached.blockNumber >= this.options.maxAgeBlocks
+            );
+        }
+        return false;
+    }
+}
@@ -0,0 +1,250 @@
+import log from 'loglevel';
+import { EventData, PastEventOptions } from 'web3-eth-contract';
+
+import { sleep } from './Utils';
+import { EnvelopingConfig } from './types/EnvelopingConfig';
+
+/**
+ * Anything that can be queried like a web3 contract for its past events
+ */
+export interface EventSource {
+    getPastEvents(
+        event: string,
+        options: PastEventOptions
+    ): Promise<EventData[]>;
+}
+
+/**
+ * Progress of a scan, enough to resume it from where it stopped.
+ * Every block before `nextBlock` has already been scanned.
+ */
+export interface LogScanCheckpoint {
+    fromBlock: number;
+    toBlock: number;
+    nextBlock: number;
+}
+
+export interface LogScanOptions {
+    /**
+     * Initial number of blocks queried per request
+     */
+    windowSize: number;
+    /**
+     * The window is never shrunk below this size; failing at this size is an error
+     */
+    minWindowSize: number;
+    /**
+     * Retries of the same window on transient errors before giving up
+     */
+    maxRetries: number;
+    /**
+     * Backoff before the first retry, doubled on every following one
+     */
+    retryBackoffMs: number;
+    /**
+     * Resume a previous scan; blocks before `nextBlock` are skipped
+     */
+    checkpoint?: LogScanCheckpoint;
+    /**
+     * Called after every successful window with the progress so far and the events found in it
+     */
+    onCheckpoint?: (
+        checkpoint: LogScanCheckpoint,
+        events: EventData[]
+    ) => void | Promise<void>;
+}
+
+export const defaultLogScanOptions: LogScanOptions = {
+    windowSize: 5000,
+    minWindowSize: 1,
+    maxRetries: 3,
+    retryBackoffMs: 500
+};
+
+// Messages RSKJ, geth and the common RPC providers use when a log query is too large
+const TOO_MANY_RESULTS_PATTERNS = [
+    /too many results/i,
+    /query returned more than/i,
+    /block range.*(too|exceed|limit)/i,
+    /(exceed|too large|too wide).*block range/i,
+    /limit exceeded/i,
+    /response size/i,
+    /logs? (are|is) (too large|limited)/i,
+    /query timeout/i
+];
+
+export function isTooManyResultsError(error: any): boolean {
+    const message: string = error?.message ?? String(error);
+    return TOO_MANY_RESULTS_PATTERNS.some((pattern) => pattern.test(message));
+}
+
+/**
+ * @returns the window size the RelayClient uses for the given config
+ */
+export function getLookupWindowSize(
+    config: Pick<
+        EnvelopingConfig,
+        'relayLookupWindowBlocks' | 'relayLookupWindowParts'
+    >
+): number {
+    const parts = Math.max(config.relayLookupWindowParts ?? 1, 1);
+    return Math.max(Math.ceil(config.relayLookupWindowBlocks / parts), 1);
+}
+
+function eventKey(event: EventData): string {
+    return `${event.blockHash ?? event.blockNumber}:${event.transactionHash}:${
+        event.logIndex
+    }`;
+}
+
+export function compareEvents(a: EventData, b: EventData): number {
+    if (a.blockNumber !== b.blockNumber) {
+        return a.blockNumber - b.blockNumber;
+    }
+    if (a.transactionIndex !== b.transactionIndex) {
+        return a.transactionIndex - b.transactionIndex;
+    }
+    return a.logIndex - b.logIndex;
+}
+
+/**
+ * Fetches the past events of a contract in block windows, so nodes that limit
+ * the range or size of `eth_getLogs` (like RSKJ) can still serve large ranges.
+ *
+ * The window is halved whenever the node complains about the size of the result
+ * and grows back after successful windows. Other errors are retried with exponential backoff.
+ * Events are returned in chain order, without duplicates.
+ */
+export class LogScanner {
+    private readonly options: LogScanOptions;
+
+    constructor(
+        private readonly source: EventSource,
+        options: Partial<LogScanOptions> = {}
+    ) {
+        this.options = { ...defaultLogScanOptions, ...options };
+        if (this.options.windowSize < 1) {
+            throw new Error(
+                `Invalid window size ${this.options.windowSize}, must be at least 1`
+            );
+        }
+        this.options.minWindowSize = Math.min(
+            Math.max(this.options.minWindowSize, 1),
+            this.options.windowSize
+        );
+    }
+
+    /**
+     * @param fromBlock - first block to scan (inclusive)
+     * @param toBlock - last block to scan (inclusive)
+     * @param options - filter and topics passed to each `getPastEvents` call
+     * @param eventName - event to query, all of them by default
+     */
+    async scan(
+        fromBlock: number,
+        toBlock: number,
+        options: Omit<PastEventOptions, 'fromBlock' | 'toBlock'> = {},
+        eventName = 'allEvents'
+    ): Promise<EventData[]> {
+        const { checkpoint } = this.options;
+        let nextBlock = fromBlock;
+        if (checkpoint != null) {
+            if (
+                checkpoint.fromBlock !== fromBlock ||
+                checkpoint.toBlock > toBlock
+            ) {
+                throw new Error(
+                    `Checkpoint for blocks ${checkpoint.fromBlock}-${checkpoint.toBlock} does not match the scan of blocks ${fromBlock}-${toBlock}`
+                );
+            }
+            nextBlock = Math.max(checkpoint.nextBlock, fromBlock);
+        }
+
+        const seen = new Set<string>();
+        const events: EventData[] = [];
+        let windowSize = this.options.windowSize;
+
+        while (nextBlock <= toBlock) {
+            const windowEnd = Math.min(nextBlock + windowSize - 1, toBlock);
+            let windowEvents: EventData[];
+            try {
+                windowEvents = await this._fetchWindow(
+                    eventName,
+                    nextBlock,
+                    windowEnd,
+                    options
+                );
+            } catch (e) {
+                if (
+                    isTooManyResultsError(e) &&
+                    windowSize > this.options.minWindowSize
+                ) {
+                    windowSize = Math.max(
+                        Math.floor(windowSize / 2),
+                        this.options.minWindowSize
+                    );
+                    log.debug(
+                        `LogScanner - too many results for blocks ${nextBlock}-${windowEnd}, shrinking window to ${windowSize}`
+                    );
+                    continue;
+                }
+                throw e;
+            }
+
+            const newEvents = windowEvents.filter((event) => {
+                const key = eventKey(event);
+                if (seen.has(key)) {
+                    return false;
+                }
+                seen.add(key);
+                return true;
+            });
+            events.push(...newEvents);
+            nextBlock = windowEnd + 1;
+
+            if (this.options.onCheckpoint != null) {
+                await this.options.onCheckpoint(
+                    { fromBlock, toBlock, nextBlock },
+                    newEvents
+                );
+            }
+            windowSize = Math.min(windowSize * 2, this.options.windowSize);
+        }
+
+        return events.sort(compareEvents);
+    }
+
+    async _fetchWindow(
+        eventName: string,
+        fromBlock: number,
+        toBlock: number,
+        options: Omit<PastEventOptions, 'fromBlock' | 'toBlock'>
+    ): Promise<EventData[]> {
+        for (
+            let attempt = 0, backoff = this.options.retryBackoffMs;
+            ;
+            attempt++, backoff *= 2
+        ) {
+            try {
+                return await this.source.getPastEvents(eventName, {
+                    ...options,
+                    fromBlock,
+                    toBlock
+                });
+            } catch (e) {
+                if (
+                    isTooManyResultsError(e) ||
+                    attempt >= this.options.maxRetries
+                ) {
+                    throw e;
+                }
+                log.debug(
+                    `LogScanner - retrying blocks ${fromBlock}-${toBlock} after error: ${
+                        (e as Error)?.message ?? String(e)
+                    }`
+                );
+                await sleep(backoff);
+            }
+        }
+    }
+}
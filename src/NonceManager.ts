@@ -0,0 +1,242 @@
+import log from 'loglevel';
+
+import ContractInteractor from './ContractInteractor';
+import { EnvelopingConfig } from './types/EnvelopingConfig';
+
+/**
+ * A nonce handed to one sender. It must be committed once the transaction
+ * is broadcast, or released if it is not sent, so the nonce can be reused.
+ */
+export interface NonceReservation {
+    readonly address: string;
+    readonly nonce: number;
+    commit(): void;
+    release(): void;
+}
+
+export class RelayMaxNonceError extends Error {
+    constructor(
+        readonly address: string,
+        readonly nonce: number,
+        readonly relayMaxNonce: number
+    ) {
+        super(
+            `Next nonce ${nonce} of ${address} is over the request relayMaxNonce ${relayMaxNonce}`
+        );
+        this.name = 'RelayMaxNonceError';
+    }
+}
+
+export type NonceManagerConfig = Pick<EnvelopingConfig, 'maxRelayNonceGap'>;
+
+interface AddressNonces {
+    /**
+     * Next never used nonce
+     */
+    next: number;
+    /**
+     * Handed out, not committed nor released yet
+     */
+    reserved: Set<number>;
+    /**
+     * Broadcast, maybe not seen by the node yet
+     */
+    committed: Set<number>;
+    /**
+     * Released below `next`, reused first
+     */
+    released: Set<number>;
+    /**
+     * Pending transaction count of the node on the last reconcile
+     */
+    chainPending: number;
+    lock: Promise<void>;
+}
+
+/**
+ * Hands out the nonces of the relay workers, one per transaction even when
+ * several are prepared concurrently.
+ *
+ * Every reservation is serialized per address and reconciles with the node's
+ * `getTransactionCount(address, 'pending')`: the next nonce never goes below it,
+ * so transactions sent by others are skipped, and it never goes back because the
+ * node has not seen our latest broadcasts yet.
+ */
+export class NonceManager {
+    private readonly nonces = new Map<string, AddressNonces>();
+
+    constructor(
+        private readonly contractInteractor: ContractInteractor,
+        private readonly config: NonceManagerConfig
+    ) {}
+
+    /**
+     * Reserves the lowest free nonce of the address, reusing released ones first
+     * @param relayMaxNonce - fail instead of reserving a nonce above it
+     * @throws RelayMaxNonceError
+     */
+    async reserve(
+        address: string,
+        relayMaxNonce?: number
+    ): Promise<NonceReservation> {
+        return await this._withLock(address, async (state) => {
+            await this._reconcile(address, state);
+            const nonce = this._nextFree(state);
+            if (relayMaxNonce != null && nonce > relayMaxNonce) {
+                throw new RelayMaxNonceError(address, nonce, relayMaxNonce);
+            }
+            state.released.delete(nonce);
+            state.reserved.add(nonce);
+            if (nonce >= state.next) {
+                state.next = nonce + 1;
+            }
+            return this._createReservation(address, nonce, state);
+        });
+    }
+
+    /**
+     * @returns the relayMaxNonce a client should put in a request for this worker
+     */
+    async getRelayMaxNonce(address: string): Promise<number> {
+        const pending = await this.contractInteractor.getTransactionCount(
+            address,
+            'pending'
+        );
+        return pending + this.config.maxRelayNonceGap;
+    }
+
+    /**
+     * @returns whether the next reservation would honor the request's relayMaxNonce
+     */
+    async canHonorRelayMaxNonce(
+        address: string,
+        relayMaxNonce: number
+    ): Promise<boolean> {
+        return await this._withLock(address, async (state) => {
+            await this._reconcile(address, state);
+            return this._nextFree(state) <= relayMaxNonce;
+        });
+    }
+
+    /**
+     * @returns the nonces between the node's pending count and the highest reserved one
+     * that no transaction uses; transactions above a gap are stuck until it is filled
+     */
+    async getGaps(address: string): Promise<number[]> {
+        return await this._withLock(address, async (state) => {
+            await this._reconcile(address, state);
+            const gaps: number[] = [];
+            for (let nonce = state.chainPending; nonce < state.next; nonce++) {
+                if (!state.reserved.has(nonce) && !state.committed.has(nonce)) {
+                    gaps.push(nonce);
+                }
+            }
+            return gaps;
+        });
+    }
+
+    /**
+     * Forgets the local state, e.g. after the node dropped our transactions.
+     * The next reservation starts again from the node's pending count.
+     */
+    async reset(address: string): Promise<void> {
+        await this._withLock(address, async (state) => {
+            state.reserved.clear();
+            state.committed.clear();
+            state.released.clear();
+            state.next = 0;
+            await this._reconcile(address, state);
+        });
+    }
+
+    _state(address: string): AddressNonces {
+        const key = address.toLowerCase();
+        let state = this.nonces.get(key);
+        if (state == null) {
+            state = {
+                next: 0,
+                reserved: new Set(),
+                committed: new Set(),
+                released: new Set(),
+                chainPending: 0,
+                lock: Promise.resolve()
+            };
+            this.nonces.set(key, state);
+        }
+        return state;
+    }
+
+    async _withLock<T>(
+        address: string,
+        action: (state: AddressNonces) => Promise<T>
+    ): Promise<T> {
+        const state = this._state(address);
+        const result = state.lock.then(async () => await action(state));
+        // the next caller waits for this one, whether it failed or not
+        state.lock = result.then(
+            () => undefined,
+            () => undefined
+        );
+        return await result;
+    }
+
+    async _reconcile(address: string, state: AddressNonces): Promise<void> {
+        const chainPending = await this.contractInteractor.getTransactionCount(
+            address,
+            'pending'
+        );
+        if (chainPending > state.next) {
+            log.debug(
+                `NonceManager - ${address} pending count ${chainPending} is ahead of the next nonce ${state.next}`
+            );
+            state.next = chainPending;
+        }
+        state.chainPending = chainPending;
+        // nonces below the pending count are used by transactions the node has
+        [state.committed, state.released].forEach((nonces) =>
+            Array.from(nonces)
+                .filter((nonce) => nonce < chainPending)
+                .forEach((nonce) => nonces.delete(nonce))
+        );
+    }
+
+    _nextFree(state: AddressNonces): number {
+        return state.released.size > 0
+            ? Math.min(...Array.from(state.released))
+            : state.next;
+    }
+
+    _createReservation(
+        address: string,
+        nonce: number,
+        state: AddressNonces
+    ): NonceReservation {
+        let settled = false;
+        const settle = (action: string): void => {
+            if (settled) {
+                throw new Error(
+                    `Nonce ${nonce} of ${address} is already committed or released, cannot ${action} it`
+                );
+            }
+            settled = true;
+            state.reserved.delete(nonce);
+        };
+        return {
+            address,
+            nonce,
+            commit: () => {
+                settle('commit');
+                state.committed.add(nonce);
+            },
+            release: () => {
+                settle('release');
+                state.released.add(nonce);
+                // released nonces at the top are simply handed out again as next
+                while (state.released.has(state.next - 1)) {
+                    state.next--;
+                    state.released.delete(state.next);
+                }
+            }
+        };
+    }
+}
@@ -0,0 +1,169 @@
+import web3Abi, { AbiCoder } from 'web3-eth-abi';
+import { Transaction } from 'web3-core';
+import { PrefixedHexString } from 'ethereumjs-tx';
+import {
+    DeployRequest,
+    IRelayHub,
+    RelayRequest
+} from '@rsksmart/rif-relay-contracts';
+
+const abi = web3Abi as unknown as AbiCoder;
+
+/**
+ * ABI-encodes the RelayHub calls a worker sends
+ */
+export interface HubCallEncoder {
+    encodeRelayCall(
+        relayRequest: RelayRequest,
+        signature: PrefixedHexString
+    ): PrefixedHexString;
+    encodeDeployCall(
+        deployRequest: DeployRequest,
+        signature: PrefixedHexString
+    ): PrefixedHexString;
+}
+
+function getHubFunction(name: string): any {
+    const item = IRelayHub.abi.find(
+        (abiItem: { type: string; name?: string }) =>
+            abiItem.type === 'function' && abiItem.name === name
+    );
+    if (item == null) {
+        throw new Error(`RelayHub ABI has no function ${name}`);
+    }
+    return item;
+}
+
+/**
+ * Encodes the calls from the IRelayHub ABI alone, without a provider or contract instance
+ */
+export const abiHubCallEncoder: HubCallEncoder = {
+    encodeRelayCall(
+        relayRequest: RelayRequest,
+        signature: PrefixedHexString
+    ): PrefixedHexString {
+        // the typings only take strings, the tuples are given as objects
+        return abi.encodeFunctionCall(getHubFunction('relayCall'), [
+            relayRequest,
+            signature
+        ] as any[]);
+    },
+
+    encodeDeployCall(
+        deployRequest: DeployRequest,
+        signature: PrefixedHexString
+    ): PrefixedHexString {
+        return abi.encodeFunctionCall(getHubFunction('deployCall'), [
+            deployRequest,
+            signature
+        ] as any[]);
+    }
+};
+
+export type DecodedHubCall =
+    | {
+          method: 'relayCall';
+          relayRequest: RelayRequest;
+          signature: PrefixedHexString;
+      }
+    | {
+          method: 'deployCall';
+          deployRequest: DeployRequest;
+          signature: PrefixedHexString;
+      };
+
+/**
+ * A RelayHub call as sent on chain by a worker
+ */
+export interface DecodedHubTransaction {
+    transactionHash: string;
+    relayWorker: string;
+    relayHub: string;
+    nonce: number;
+    gas: number;
+    gasPrice: string;
+    /**
+     * null while the transaction is pending
+     */
+    blockNumber: number | null;
+    call: DecodedHubCall;
+}
+
+interface AbiParameter {
+    name: string;
+    type: string;
+    components?: AbiParameter[];
+}
+
+// uints are decimal strings, as in the requests built by the client
+function readParameters(parameters: AbiParameter[], values: any): any {
+    const result: { [name: string]: any } = {};
+    parameters.forEach(({ name, type, components }) => {
+        const value = values[name];
+        if (type === 'tuple' && components != null) {
+            result[name] = readParameters(components, value);
+        } else if (type === 'bytes') {
+            // empty bytes are decoded as null
+            result[name] = value ?? '0x';
+        } else {
+            result[name] = String(value);
+        }
+    });
+    return result;
+}
+
+/**
+ * Inverse of {@link HubCallEncoder}: rebuilds the request and signature from the calldata
+ * @throws if the calldata is not a relayCall or deployCall
+ */
+export function decodeHubCall(input: PrefixedHexString): DecodedHubCall {
+    const selector = input.slice(0, 10).toLowerCase();
+    const method = (['relayCall', 'deployCall'] as const).find(
+        (name) => abi.encodeFunctionSignature(getHubFunction(name)) === selector
+    );
+    if (method == null) {
+        throw new Error(
+            `Calldata with selector ${selector} is not a relayCall or deployCall`
+        );
+    }
+    const inputs: AbiParameter[] = getHubFunction(method).inputs;
+    const values = readParameters(
+        inputs,
+        abi.decodeParameters(inputs, '0x' + input.slice(10))
+    );
+    return method === 'relayCall'
+        ? {
+              method,
+              relayRequest: values.relayRequest,
+              signature: values.signature
+          }
+        : {
+              method,
+              deployRequest: values.deployRequest,
+              signature: values.signature
+          };
+}
+
+/**
+ * Decodes a transaction fetched with `getTransaction`
+ * @throws if the transaction has no `to` or is not a RelayHub call
+ */
+export function decodeHubTransaction(
+    transaction: Transaction
+): DecodedHubTransaction {
+    if (transaction.to == null) {
+        throw new Error(
+            `Transaction ${transaction.hash} is a contract creation, not a RelayHub call`
+        );
+    }
+    return {
+        transactionHash: transaction.hash,
+        relayWorker: transaction.from,
+        relayHub: transaction.to,
+        nonce: transaction.nonce,
+        gas: transaction.gas,
+        gasPrice: transaction.gasPrice,
+        blockNumber: transaction.blockNumber,
+        call: decodeHubCall(transaction.input)
+    };
+}
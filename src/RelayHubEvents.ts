@@ -0,0 +1,312 @@
+import BN from 'bn.js';
+import web3Abi, { AbiCoder } from 'web3-eth-abi';
+import { Log } from 'web3-core';
+import { EventData } from 'web3-eth-contract';
+import { AbiItem, toBN, toChecksumAddress } from 'web3-utils';
+import { IRelayHub } from '@rsksmart/rif-relay-contracts';
+
+const abi = web3Abi as unknown as AbiCoder;
+
+export const RelayServerRegistered = 'RelayServerRegistered';
+export const RelayWorkersAdded = 'RelayWorkersAdded';
+export const TransactionRelayed = 'TransactionRelayed';
+export const TransactionRejectedByRecipient =
+    'TransactionRelayedButRevertedByRecipient';
+
+export const StakeAdded = 'StakeAdded';
+export const StakeUnlocked = 'StakeUnlocked';
+export const StakeWithdrawn = 'StakeWithdrawn';
+export const StakePenalized = 'StakePenalized';
+
+export type HubEventName =
+    | typeof RelayServerRegistered
+    | typeof RelayWorkersAdded
+    | typeof TransactionRelayed
+    | typeof TransactionRejectedByRecipient
+    | typeof StakeAdded
+    | typeof StakeUnlocked
+    | typeof StakeWithdrawn
+    | typeof StakePenalized;
+
+/**
+ * Location of the log that emitted the event
+ */
+export interface HubEventBase {
+    address: string;
+    blockNumber: number;
+    blockHash: string;
+    transactionHash: string;
+    transactionIndex: number;
+    logIndex: number;
+}
+
+export interface RelayServerRegisteredEvent extends HubEventBase {
+    event: typeof RelayServerRegistered;
+    relayManager: string;
+    relayUrl: string;
+}
+
+export interface RelayWorkersAddedEvent extends HubEventBase {
+    event: typeof RelayWorkersAdded;
+    relayManager: string;
+    newRelayWorkers: string[];
+    workersCount: number;
+}
+
+export interface TransactionRelayedEvent extends HubEventBase {
+    event: typeof TransactionRelayed;
+    relayManager: string;
+    relayWorker: string;
+    relayRequestSigHash: string;
+    relayedCallReturnValue: string;
+}
+
+export interface TransactionRejectedByRecipientEvent extends HubEventBase {
+    event: typeof TransactionRejectedByRecipient;
+    relayManager: string;
+    relayWorker: string;
+    relayRequestSigHash: string;
+    reason: string;
+}
+
+export interface StakeAddedEvent extends HubEventBase {
+    event: typeof StakeAdded;
+    relayManager: string;
+    owner: string;
+    stake: BN;
+    unstakeDelay: number;
+}
+
+export interface StakeUnlockedEvent extends HubEventBase {
+    event: typeof StakeUnlocked;
+    relayManager: string;
+    owner: string;
+    withdrawBlock: number;
+}
+
+export interface StakeWithdrawnEvent extends HubEventBase {
+    event: typeof StakeWithdrawn;
+    relayManager: string;
+    owner: string;
+    amount: BN;
+}
+
+export interface StakePenalizedEvent extends HubEventBase {
+    event: typeof StakePenalized;
+    relayManager: string;
+    beneficiary: string;
+    reward: BN;
+}
+
+export type RelayHubEvent =
+    | RelayServerRegisteredEvent
+    | RelayWorkersAddedEvent
+    | TransactionRelayedEvent
+    | TransactionRejectedByRecipientEvent
+    | StakeAddedEvent
+    | StakeUnlockedEvent
+    | StakeWithdrawnEvent
+    | StakePenalizedEvent;
+
+export type RelayHubEventOf<T extends HubEventName> = Extract<
+    RelayHubEvent,
+    { event: T }
+>;
+
+const hubEventNames: string[] = [
+    RelayServerRegistered,
+    RelayWorkersAdded,
+    TransactionRelayed,
+    TransactionRejectedByRecipient,
+    StakeAdded,
+    StakeUnlocked,
+    StakeWithdrawn,
+    StakePenalized
+];
+
+export function isHubEventName(name: string): name is HubEventName {
+    return hubEventNames.includes(name);
+}
+
+function readValue(event: EventData, name: string): any {
+    const value = event.returnValues[name];
+    if (value == null) {
+        throw new Error(
+            `Event ${event.event} in transaction ${event.transactionHash} is missing the '${name}' value`
+        );
+    }
+    return value;
+}
+
+function readAddress(event: EventData, name: string): string {
+    return toChecksumAddress(readValue(event, name));
+}
+
+function readBN(event: EventData, name: string): BN {
+    return toBN(readValue(event, name).toString());
+}
+
+function readNumber(event: EventData, name: string): number {
+    return readBN(event, name).toNumber();
+}
+
+/**
+ * Turns a raw RelayHub event, as returned by `getPastEvents`, into its typed representation.
+ * Addresses are checksummed, amounts are BN and block numbers, counters and delays are numbers.
+ * @throws if the event is not a known RelayHub event or a value is missing
+ */
+export function decodeHubEvent(event: EventData): RelayHubEvent {
+    const base: HubEventBase = {
+        address: event.address,
+        blockNumber: event.blockNumber,
+        blockHash: event.blockHash,
+        transactionHash: event.transactionHash,
+        transactionIndex: event.transactionIndex,
+        logIndex: event.logIndex
+    };
+    switch (event.event) {
+        case RelayServerRegistered:
+            return {
+                ...base,
+                event: RelayServerRegistered,
+                relayManager: readAddress(event, 'relayManager'),
+                relayUrl: readValue(event, 'relayUrl')
+            };
+        case RelayWorkersAdded:
+            return {
+                ...base,
+                event: RelayWorkersAdded,
+                relayManager: readAddress(event, 'relayManager'),
+                newRelayWorkers: (
+                    readValue(event, 'newRelayWorkers') as string[]
+                ).map((worker) => toChecksumAddress(worker)),
+                workersCount: readNumber(event, 'workersCount')
+            };
+        case TransactionRelayed:
+            return {
+                ...base,
+                event: TransactionRelayed,
+                relayManager: readAddress(event, 'relayManager'),
+                relayWorker: readAddress(event, 'relayWorker'),
+                relayRequestSigHash: readValue(event, 'relayRequestSigHash'),
+                relayedCallReturnValue: readValue(
+                    event,
+                    'relayedCallReturnValue'
+                )
+            };
+        case TransactionRejectedByRecipient:
+            return {
+                ...base,
+                event: TransactionRejectedByRecipient,
+                relayManager: readAddress(event, 'relayManager'),
+                relayWorker: readAddress(event, 'relayWorker'),
+                relayRequestSigHash: readValue(event, 'relayRequestSigHash'),
+                reason: readValue(event, 'reason')
+            };
+        case StakeAdded:
+            return {
+                ...base,
+                event: StakeAdded,
+                relayManager: readAddress(event, 'relayManager'),
+                owner: readAddress(event, 'owner'),
+                stake: readBN(event, 'stake'),
+                unstakeDelay: readNumber(event, 'unstakeDelay')
+            };
+        case StakeUnlocked:
+            return {
+                ...base,
+                event: StakeUnlocked,
+                relayManager: readAddress(event, 'relayManager'),
+                owner: readAddress(event, 'owner'),
+                withdrawBlock: readNumber(event, 'withdrawBlock')
+            };
+        case StakeWithdrawn:
+            return {
+                ...base,
+                event: StakeWithdrawn,
+                relayManager: readAddress(event, 'relayManager'),
+                owner: readAddress(event, 'owner'),
+                amount: readBN(event, 'amount')
+            };
+        case StakePenalized:
+            return {
+                ...base,
+                event: StakePenalized,
+                relayManager: readAddress(event, 'relayManager'),
+                beneficiary: readAddress(event, 'beneficiary'),
+                reward: readBN(event, 'reward')
+            };
+        default:
+            throw new Error(`Unknown RelayHub event: ${event.event}`);
+    }
+}
+
+/**
+ * Decodes every known RelayHub event, skipping the ones this library does not model
+ */
+export function decodeHubEvents(events: EventData[]): RelayHubEvent[] {
+    return events
+        .filter((event) => isHubEventName(event.event))
+        .map(decodeHubEvent);
+}
+
+const hubEventAbis: Array<{ name: string; inputs: any[]; topic: string }> =
+    IRelayHub.abi
+        .filter(
+            (item: { type: string; name?: string }) =>
+                item.type === 'event' &&
+                item.name != null &&
+                isHubEventName(item.name)
+        )
+        .map((item: AbiItem) => ({
+            name: item.name as string,
+            inputs: item.inputs as any[],
+            topic: abi.encodeEventSignature(item)
+        }));
+
+/**
+ * Decodes the RelayHub events found in raw logs, e.g. the logs of a transaction receipt
+ * @param relayHub - only decode the logs emitted by this address
+ */
+export function decodeHubLogs(logs: Log[], relayHub?: string): RelayHubEvent[] {
+    return logs
+        .filter(
+            (log) =>
+                relayHub == null ||
+                log.address.toLowerCase() === relayHub.toLowerCase()
+        )
+        .map((log): EventData | undefined => {
+            const eventAbi = hubEventAbis.find(
+                ({ topic }) => topic === log.topics[0]
+            );
+            if (eventAbi == null) {
+                return undefined;
+            }
+            const returnValues = abi.decodeLog(
+                eventAbi.inputs,
+                log.data,
+                log.topics.slice(1)
+            );
+            // empty bytes, e.g. a revert without reason, are decoded as null
+            eventAbi.inputs
+                .filter(
+                    ({ name, type }) =>
+                        type === 'bytes' && returnValues[name] == null
+                )
+                .forEach(({ name }) => (returnValues[name] = '0x'));
+            return {
+                event: eventAbi.name,
+                signature: eventAbi.topic,
+                returnValues,
+                raw: { data: log.data, topics: log.topics },
+                address: log.address,
+                blockNumber: log.blockNumber,
+                blockHash: log.blockHash,
+                transactionHash: log.transactionHash,
+                transactionIndex: log.transactionIndex,
+                logIndex: log.logIndex
+            };
+        })
+        .filter((event): event is EventData => event != null)
+        .map(decodeHubEvent);
+}
@@ -0,0 +1,220 @@
+import log from 'loglevel';
+import { toChecksumAddress } from 'web3-utils';
+
+import ContractInteractor from './ContractInteractor';
+import { EnvelopingConfig } from './types/EnvelopingConfig';
+import {
+    HubEventName,
+    RelayServerRegistered,
+    StakeAdded,
+    StakePenalized,
+    StakeUnlocked,
+    StakeWithdrawn
+} from './RelayHubEvents';
+
+/**
+ * A relay manager known to the RelayHub, as seen on the latest refresh
+ */
+export interface RegisteredRelay {
+    manager: string;
+    url: string;
+    registered: boolean;
+    currentlyStaked: boolean;
+    preferred: boolean;
+    /**
+     * Block of the latest hub event that involved this manager
+     */
+    lastEventBlock: number;
+}
+
+export interface RelayFilter {
+    /**
+     * Include managers that are no longer registered or staked
+     */
+    includeInactive?: boolean;
+    /**
+     * Only return preferred relays; defaults to the config's `onlyPreferredRelays`
+     */
+    onlyPreferred?: boolean;
+    managers?: string[];
+    urls?: string[];
+    predicate?: (relay: RegisteredRelay) => boolean;
+}
+
+export type RelayRegistryConfig = Pick<
+    EnvelopingConfig,
+    'preferredRelays' | 'onlyPreferredRelays' | 'relayLookupWindowBlocks'
+>;
+
+const RegistryEvents: HubEventName[] = [
+    RelayServerRegistered,
+    StakeAdded,
+    StakeUnlocked,
+    StakeWithdrawn,
+    StakePenalized
+];
+
+export function normalizeRelayUrl(url: string): string {
+    return url.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * Keeps the set of relay managers registered in the RelayHub and their URLs.
+ *
+ * The first {@link refresh} scans the last `relayLookupWindowBlocks` blocks; later ones
+ * only scan the blocks mined since, and re-read the hub info of the managers
+ * involved in the new registration and stake events.
+ * Queries return the preferred relays first, in the order of `preferredRelays`.
+ */
+export class RelayRegistry {
+    private readonly relays = new Map<string, RegisteredRelay>();
+    private readonly preferredUrls: string[];
+    private lastScannedBlock?: number;
+
+    constructor(
+        private readonly contractInteractor: ContractInteractor,
+        private readonly config: RelayRegistryConfig
+    ) {
+        this.preferredUrls = config.preferredRelays.map(normalizeRelayUrl);
+    }
+
+    /**
+     * @returns the last block included in the registry, if refreshed at least once
+     */
+    get lastBlock(): number | undefined {
+        return this.lastScannedBlock;
+    }
+
+    get size(): number {
+        return this.relays.size;
+    }
+
+    async refresh(): Promise<void> {
+        const latestBlock = await this.contractInteractor.getBlockNumber();
+        const fromBlock =
+            this.lastScannedBlock == null
+                ? Math.max(latestBlock - this.config.relayLookupWindowBlocks, 0)
+                : this.lastScannedBlock + 1;
+        if (fromBlock > latestBlock) {
+            return;
+        }
+
+        const events = await this.contractInteractor.getTypedPastEventsForHub(
+            [],
+            { fromBlock, toBlock: latestBlock },
+            RegistryEvents
+        );
+        const touched = new Map<string, number>();
+        const eventUrls = new Map<string, string>();
+        events.forEach((event) => {
+            const key = event.relayManager.toLowerCase();
+            touched.set(key, event.blockNumber);
+            if (event.event === RelayServerRegistered) {
+                eventUrls.set(key, event.relayUrl);
+            }
+        });
+
+        if (touched.size > 0) {
+            const managers = new Set(
+                Array.from(touched.keys()).map((manager) =>
+                    toChecksumAddress(manager)
+                )
+            );
+            const infos = await this.contractInteractor.getRelayInfo(managers);
+            infos.forEach((info) => {
+                const key = info.manager.toLowerCase();
+                const url = info.url !== '' ? info.url : eventUrls.get(key);
+                this.relays.set(key, {
+                    manager: toChecksumAddress(info.manager),
+                    url: url ?? '',
+                    registered: info.registered,
+                    currentlyStaked: info.currentlyStaked,
+                    preferred: this._isPreferredUrl(url),
+                    lastEventBlock:
+                        touched.get(key) ??
+                        this.relays.get(key)?.lastEventBlock ??
+                        latestBlock
+                });
+            });
+        }
+        log.debug(
+            `RelayRegistry - scanned blocks ${fromBlock}-${latestBlock}, ${touched.size} managers updated, ${this.relays.size} known`
+        );
+        this.lastScannedBlock = latestBlock;
+    }
+
+    getRelay(manager: string): RegisteredRelay | undefined {
+        return this.relays.get(manager.toLowerCase());
+    }
+
+    /**
+     * @returns the known relays matching the filter, preferred first and then the most recently active
+     */
+    getRelays(filter: RelayFilter = {}): RegisteredRelay[] {
+        const onlyPreferred =
+            filter.onlyPreferred ?? this.config.onlyPreferredRelays;
+        const managers = filter.managers?.map((manager) =>
+            manager.toLowerCase()
+        );
+        const urls = filter.urls?.map(normalizeRelayUrl);
+
+        return Array.from(this.relays.values())
+            .filter(
+                (relay) =>
+                    (filter.includeInactive === true ||
+                        (relay.registered && relay.currentlyStaked)) &&
+                    (!onlyPreferred || relay.preferred) &&
+                    (managers == null ||
+                        managers.includes(relay.manager.toLowerCase())) &&
+                    (urls == null ||
+                        urls.includes(normalizeRelayUrl(relay.url))) &&
+                    (filter.predicate == null || filter.predicate(relay))
+            )
+            .sort((a, b) => this._compareRelays(a, b));
+    }
+
+    /**
+     * @returns the URLs to try, in order: every preferred relay (even if not seen in the hub),
+     * followed by the active registered relays unless `onlyPreferredRelays` is set
+     */
+    getRelayUrls(filter: RelayFilter = {}): string[] {
+        const onlyPreferred =
+            filter.onlyPreferred ?? this.config.onlyPreferredRelays;
+        const urls = [...this.config.preferredRelays];
+        if (!onlyPreferred) {
+            this.getRelays({ ...filter, onlyPreferred: false }).forEach(
+                (relay) => urls.push(relay.url)
+            );
+        }
+        const seen = new Set<string>();
+        return urls.filter((url) => {
+            const normalized = normalizeRelayUrl(url);
+            if (normalized === '' || seen.has(normalized)) {
+                return false;
+            }
+            seen.add(normalized);
+            return true;
+        });
+    }
+
+    _isPreferredUrl(url?: string): boolean {
+        return (
+            url != null && this.preferredUrls.includes(normalizeRelayUrl(url))
+        );
+    }
+
+    _compareRelays(a: RegisteredRelay, b: RegisteredRelay): number {
+        const rankA = this.preferredUrls.indexOf(normalizeRelayUrl(a.url));
+        const rankB = this.preferredUrls.indexOf(normalizeRelayUrl(b.url));
+        if (rankA !== rankB) {
+            if (rankA === -1) {
+                return 1;
+            }
+            if (rankB === -1) {
+                return -1;
+            }
+            return rankA - rankB;
+        }
+        return b.lastEventBlock - a.lastEventBlock;
+    }
+}
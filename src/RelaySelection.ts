@@ -0,0 +1,314 @@
+import BN from 'bn.js';
+import { toBN } from 'web3-utils';
+
+import PingResponse from './PingResponse';
+import VersionsManager from './VersionsManager';
+import { EnvelopingConfig } from './types/EnvelopingConfig';
+import { isSameAddress } from './Utils';
+
+export type PingRejectionReason =
+    | 'invalidResponse'
+    | 'notReady'
+    | 'hubMismatch'
+    | 'chainMismatch'
+    | 'versionIncompatible'
+    | 'gasPriceTooHigh';
+
+export interface PingValidation {
+    accepted: boolean;
+    reason?: PingRejectionReason;
+    message?: string;
+}
+
+export type PingValidationConfig = Pick<
+    EnvelopingConfig,
+    'relayHubAddress' | 'chainId'
+>;
+
+const addressPattern = /^0x[0-9a-fA-F]{40}$/;
+// decimal or 0x-prefixed hex, as toBN reads them
+const uintPattern = /^([0-9]+|0x[0-9a-fA-F]+)$/;
+
+function reject(reason: PingRejectionReason, message: string): PingValidation {
+    return { accepted: false, reason, message };
+}
+
+/**
+ * Checks that a relay server can serve our requests, based on its ping response.
+ * @param ping - the response of the relay server
+ * @param config - the hub and chain the requests are meant for
+ * @param versionsManager - the component version the server must be compatible with
+ * @param maxGasPrice - if set, servers asking for a higher `minGasPrice` are rejected
+ */
+export function validatePingResponse(
+    ping: PingResponse,
+    config: PingValidationConfig,
+    versionsManager: VersionsManager,
+    maxGasPrice?: BN | number | string
+): PingValidation {
+    if (
+        ping == null ||
+        ping.relayWorkerAddress == null ||
+        ping.relayManagerAddress == null ||
+        ping.relayHubAddress == null ||
+        ping.feesReceiver == null ||
+        ping.minGasPrice == null ||
+        ping.version == null
+    ) {
+        return reject(
+            'invalidResponse',
+            'Ping response is missing required fields'
+        );
+    }
+    if (!addressPattern.test(ping.feesReceiver)) {
+        return reject(
+            'invalidResponse',
+            `Relay fees receiver ${ping.feesReceiver} is not an address`
+        );
+    }
+    if (!uintPattern.test(ping.minGasPrice)) {
+        return reject(
+            'invalidResponse',
+            `Relay minimum gas price ${ping.minGasPrice} is not a number`
+        );
+    }
+    if (!ping.ready) {
+        return reject(
+            'notReady',
+            `Relay manager ${ping.relayManagerAddress} is not ready`
+        );
+    }
+    if (!isSameAddress(ping.relayHubAddress, config.relayHubAddress)) {
+        return reject(
+            'hubMismatch',
+            `Relay uses hub ${ping.relayHubAddress}, expected ${config.relayHubAddress}`
+        );
+    }
+    if (ping.chainId != null && parseInt(ping.chainId) !== config.chainId) {
+        return reject(
+            'chainMismatch',
+            `Relay is on chain ${ping.chainId}, expected ${config.chainId}`
+        );
+    }
+    if (!versionsManager.isMinorSameOrNewer(ping.version)) {
+        return reject(
+            'versionIncompatible',
+            `Relay version ${ping.version} is not compatible with ${versionsManager.componentVersion}`
+        );
+    }
+    if (
+        maxGasPrice != null &&
+        toBN(ping.minGasPrice).gt(toBN(maxGasPrice.toString()))
+    ) {
+        return reject(
+            'gasPriceTooHigh',
+            `Relay minimum gas price ${
+                ping.minGasPrice
+            } is above ${maxGasPrice.toString()}`
+        );
+    }
+    return { accepted: true };
+}
+
+/**
+ * Remembers when each relay failed to serve a request, to deprioritize it for a while
+ */
+export class RelayFailureHistory {
+    private readonly failures = new Map<string, number[]>();
+
+    /**
+     * @param windowMs - failures older than this are forgotten
+     */
+    constructor(readonly windowMs = 10 * 60 * 1000) {}
+
+    recordFailure(relayUrl: string, time = Date.now()): void {
+        const failures = this._prune(relayUrl, time);
+        failures.push(time);
+        this.failures.set(relayUrl, failures);
+    }
+
+    getRecentFailures(relayUrl: string, now = Date.now()): number {
+        return this._prune(relayUrl, now).length;
+    }
+
+    clear(relayUrl?: string): void {
+        if (relayUrl == null) {
+            this.failures.clear();
+        } else {
+            this.failures.delete(relayUrl);
+        }
+    }
+
+    _prune(relayUrl: string, now: number): number[] {
+        const recent = (this.failures.get(relayUrl) ?? []).filter(
+            (time) => now - time < this.windowMs
+        );
+        if (recent.length === 0) {
+            this.failures.delete(relayUrl);
+        } else {
+            this.failures.set(relayUrl, recent);
+        }
+        return recent;
+    }
+}
+
+export interface RelayCandidate {
+    url: string;
+    ping: PingResponse;
+    preferred?: boolean;
+}
+
+export interface RelayScoringContext {
+    recentFailures: number;
+    /**
+     * Lowest `minGasPrice` among the accepted candidates
+     */
+    lowestMinGasPrice: BN;
+}
+
+export interface RelayScoringPolicy {
+    score(candidate: RelayCandidate, context: RelayScoringContext): number;
+}
+
+export interface DefaultScoringOptions {
+    preferredBonus: number;
+    failurePenalty: number;
+    /**
+     * Penalty for asking twice the lowest minimum gas price, proportional in between
+     */
+    gasPricePenalty: number;
+}
+
+/**
+ * Starts every relay at 100 points, adds a bonus for preferred relays and
+ * subtracts points for every recent failure and for a minimum gas price above the cheapest relay.
+ */
+export class DefaultRelayScoringPolicy implements RelayScoringPolicy {
+    private readonly options: DefaultScoringOptions;
+
+    constructor(options: Partial<DefaultScoringOptions> = {}) {
+        this.options = {
+            preferredBonus: 50,
+            failurePenalty: 30,
+            gasPricePenalty: 20,
+            ...options
+        };
+    }
+
+    score(candidate: RelayCandidate, context: RelayScoringContext): number {
+        let score = 100;
+        if (candidate.preferred === true) {
+            score += this.options.preferredBonus;
+        }
+        score -= context.recentFailures * this.options.failurePenalty;
+        if (!context.lowestMinGasPrice.isZero()) {
+            const ratio =
+                toBN(candidate.ping.minGasPrice)
+                    .muln(1000)
+                    .div(context.lowestMinGasPrice)
+                    .toNumber() / 1000;
+            score -= (ratio - 1) * this.options.gasPricePenalty;
+        }
+        return score;
+    }
+}
+
+export interface RankedRelay {
+    candidate: RelayCandidate;
+    score: number;
+}
+
+export interface RejectedRelay {
+    candidate: RelayCandidate;
+    reason: PingRejectionReason;
+    message: string;
+}
+
+export interface RelaySelection {
+    /**
+     * Accepted relays, best first
+     */
+    accepted: RankedRelay[];
+    rejected: RejectedRelay[];
+}
+
+export interface RelaySelectorOptions {
+    scoringPolicy: RelayScoringPolicy;
+    failureHistory: RelayFailureHistory;
+    maxGasPrice?: BN | number | string;
+}
+
+/**
+ * Validates relay ping responses against the config and ranks the valid ones
+ * with a {@link RelayScoringPolicy}, taking into account their recent failures.
+ */
+export class RelaySelector {
+    readonly failureHistory: RelayFailureHistory;
+    private readonly scoringPolicy: RelayScoringPolicy;
+    private readonly maxGasPrice?: BN | number | string;
+
+    constructor(
+        private readonly config: PingValidationConfig,
+        private readonly versionsManager: VersionsManager,
+        options: Partial<RelaySelectorOptions> = {}
+    ) {
+        this.scoringPolicy =
+            options.scoringPolicy ?? new DefaultRelayScoringPolicy();
+        this.failureHistory =
+            options.failureHistory ?? new RelayFailureHistory();
+        this.maxGasPrice = options.maxGasPrice;
+    }
+
+    validate(candidate: RelayCandidate): PingValidation {
+        return validatePingResponse(
+            candidate.ping,
+            this.config,
+            this.versionsManager,
+            this.maxGasPrice
+        );
+    }
+
+    selectRelays(candidates: RelayCandidate[]): RelaySelection {
+        const accepted: RelayCandidate[] = [];
+        const rejected: RejectedRelay[] = [];
+        candidates.forEach((candidate) => {
+            const validation = this.validate(candidate);
+            if (validation.accepted) {
+                accepted.push(candidate);
+            } else {
+                rejected.push({
+                    candidate,
+                    reason: validation.reason as PingRejectionReason,
+                    message: validation.message ?? ''
+                });
+            }
+        });
+
+        const lowestMinGasPrice = accepted
+            .map((candidate) => toBN(candidate.ping.minGasPrice))
+            .reduce<BN | undefined>(
+                (lowest, gasPrice) =>
+                    lowest == null || gasPrice.lt(lowest) ? gasPrice : lowest,
+                undefined
+            );
+        const now = Date.now();
+        const ranked = accepted
+            .map((candidate) => ({
+                candidate,
+                score: this.scoringPolicy.score(candidate, {
+                    recentFailures: this.failureHistory.getRecentFailures(
+                        candidate.url,
+                        now
+                    ),
+                    lowestMinGasPrice: lowestMinGasPrice ?? toBN(0)
+                })
+            }))
+            .sort((a, b) => b.score - a.score);
+
+        return { accepted: ranked, rejected };
+    }
+
+    recordFailure(relayUrl: string): void {
+        this.failureHistory.recordFailure(relayUrl);
+    }
+}
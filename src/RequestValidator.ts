@@ -0,0 +1,351 @@
+import { isValidChecksumAddress } from 'ethereumjs-util';
+import { toBN } from 'web3-utils';
+
+import { constants } from './Constants';
+import {
+    DeployTransactionRequest,
+    RelayTransactionRequest
+} from './types/RelayTransactionRequest';
+
+type FieldKind = 'address' | 'uint' | 'bytes' | 'signature' | 'integer';
+
+interface FieldTable {
+    [field: string]: FieldKind | FieldTable;
+}
+
+const relayDataFields: FieldTable = {
+    gasPrice: 'uint',
+    feesReceiver: 'address',
+    callForwarder: 'address',
+    callVerifier: 'address'
+};
+
+const metadataFields: FieldTable = {
+    relayHubAddress: 'address',
+    relayMaxNonce: 'integer',
+    signature: 'signature'
+};
+
+const relayTransactionRequestFields: FieldTable = {
+    relayRequest: {
+        request: {
+            relayHub: 'address',
+            from: 'address',
+            to: 'address',
+            tokenContract: 'address',
+            value: 'uint',
+            gas: 'uint',
+            nonce: 'uint',
+            tokenAmount: 'uint',
+            tokenGas: 'uint',
+            validUntilTime: 'uint',
+            data: 'bytes'
+        },
+        relayData: relayDataFields
+    },
+    metadata: metadataFields
+};
+
+const deployTransactionRequestFields: FieldTable = {
+    relayRequest: {
+        request: {
+            relayHub: 'address',
+            from: 'address',
+            to: 'address',
+            tokenContract: 'address',
+            recoverer: 'address',
+            value: 'uint',
+            nonce: 'uint',
+            tokenAmount: 'uint',
+            tokenGas: 'uint',
+            validUntilTime: 'uint',
+            index: 'uint',
+            data: 'bytes'
+        },
+        relayData: relayDataFields
+    },
+    metadata: metadataFields
+};
+
+const addressPattern = '^0x[0-9a-fA-F]{40}$';
+// decimal without leading zeros, or 0x-prefixed hex
+const uintPattern = '^(0|[1-9][0-9]*|0x[0-9a-fA-F]+)$';
+const bytesPattern = '^0x([0-9a-fA-F]{2})*$';
+const signaturePattern = '^0x[0-9a-fA-F]{130}$';
+
+export interface RequestViolation {
+    /**
+     * JSON path of the offending field, e.g. `relayRequest.request.nonce`
+     */
+    path: string;
+    message: string;
+}
+
+export interface RequestValidationResult {
+    valid: boolean;
+    violations: RequestViolation[];
+}
+
+export interface RequestValidationOptions {
+    /**
+     * Current time in seconds, to check `validUntilTime`
+     */
+    now?: number;
+    /**
+     * Reject a `validUntilTime` further than this in the future
+     */
+    maxValiditySeconds?: number;
+    /**
+     * Maximum size of `data`, 32 KiB by default
+     */
+    maxDataBytes?: number;
+    /**
+     * Reject addresses that are not checksummed; otherwise only mixed-case addresses are checksum-verified
+     */
+    requireChecksum?: boolean;
+    /**
+     * Chain of the EIP-1191 checksums, RSK Mainnet and Testnet when not set. EIP-55 checksums are always accepted.
+     */
+    chainId?: number;
+}
+
+const eip1191ChainIds = [30, 31];
+
+function hasValidChecksum(address: string, chainId?: number): boolean {
+    return (
+        isValidChecksumAddress(address) ||
+        (chainId != null ? [chainId] : eip1191ChainIds).some((id) =>
+            isValidChecksumAddress(address, id)
+        )
+    );
+}
+
+const defaultMaxDataBytes = 32 * 1024;
+
+function checkField(
+    kind: FieldKind,
+    value: any,
+    options: RequestValidationOptions
+): string | undefined {
+    switch (kind) {
+        case 'integer':
+            return Number.isSafeInteger(value) && value >= 0
+                ? undefined
+                : 'must be a non-negative integer';
+        case 'address':
+            if (
+                typeof value !== 'string' ||
+                !new RegExp(addressPattern).test(value)
+            ) {
+                return 'must be a 0x-prefixed 20 bytes address';
+            }
+            if (hasValidChecksum(value, options.chainId)) {
+                return undefined;
+            }
+            if (options.requireChecksum === true) {
+                return 'must be checksummed';
+            }
+            return /[a-f]/.test(value) && /[A-F]/.test(value)
+                ? 'has an invalid checksum'
+                : undefined;
+        case 'uint':
+            if (
+                typeof value !== 'string' ||
+                !new RegExp(uintPattern).test(value)
+            ) {
+                return 'must be an unsigned integer, in decimal or 0x-prefixed hex';
+            }
+            return toBN(value).gt(constants.MAX_UINT256)
+                ? 'must fit in a uint256'
+                : undefined;
+        case 'bytes': {
+            if (
+                typeof value !== 'string' ||
+                !new RegExp(bytesPattern).test(value)
+            ) {
+                return 'must be 0x-prefixed hex bytes';
+            }
+            const maxDataBytes = options.maxDataBytes ?? defaultMaxDataBytes;
+            const size = (value.length - 2) / 2;
+            return size > maxDataBytes
+                ? `is ${size} bytes long, the maximum is ${maxDataBytes}`
+                : undefined;
+        }
+        case 'signature':
+            return typeof value === 'string' &&
+                new RegExp(signaturePattern).test(value)
+                ? undefined
+                : 'must be a 0x-prefixed 65 bytes signature';
+    }
+}
+
+function checkFields(
+    table: FieldTable,
+    value: any,
+    path: string,
+    options: RequestValidationOptions,
+    violations: RequestViolation[]
+): void {
+    if (value == null || typeof value !== 'object' || Array.isArray(value)) {
+        violations.push({
+            path: path === '' ? '$' : path,
+            message: 'must be an object'
+        });
+        return;
+    }
+    const prefix = path === '' ? '' : path + '.';
+    Object.keys(value)
+        .filter((key) => !(key in table))
+        .forEach((key) =>
+            violations.push({
+                path: prefix + key,
+                message: 'is not an expected field'
+            })
+        );
+    Object.entries(table).forEach(([key, kind]) => {
+        const fieldPath = prefix + key;
+        if (value[key] === undefined) {
+            violations.push({ path: fieldPath, message: 'is required' });
+        } else if (typeof kind === 'object') {
+            checkFields(kind, value[key], fieldPath, options, violations);
+        } else {
+            const message = checkField(kind, value[key], options);
+            if (message != null) {
+                violations.push({ path: fieldPath, message });
+            }
+        }
+    });
+}
+
+function checkRequest(
+    table: FieldTable,
+    request: any,
+    options: RequestValidationOptions
+): RequestValidationResult {
+    const violations: RequestViolation[] = [];
+    checkFields(table, request, '', options, violations);
+
+    // cross-field checks, only on fields that are well formed
+    const failed = new Set(violations.map(({ path }) => path));
+    const forwardRequest = request?.relayRequest?.request;
+    const hubPath = 'relayRequest.request.relayHub';
+    const metadataHubPath = 'metadata.relayHubAddress';
+    if (
+        !failed.has(hubPath) &&
+        !failed.has(metadataHubPath) &&
+        !failed.has('$') &&
+        forwardRequest?.relayHub != null &&
+        request.metadata?.relayHubAddress != null &&
+        forwardRequest.relayHub.toLowerCase() !==
+            request.metadata.relayHubAddress.toLowerCase()
+    ) {
+        violations.push({
+            path: metadataHubPath,
+            message: `does not match ${hubPath} ${forwardRequest.relayHub}`
+        });
+    }
+    const validUntilPath = 'relayRequest.request.validUntilTime';
+    if (!failed.has(validUntilPath) && forwardRequest?.validUntilTime != null) {
+        const validUntilTime = toBN(forwardRequest.validUntilTime);
+        const now = options.now ?? Math.floor(Date.now() / 1000);
+        if (!validUntilTime.isZero()) {
+            if (validUntilTime.lte(toBN(now))) {
+                violations.push({
+                    path: validUntilPath,
+                    message: `expired at ${validUntilTime.toString()}, now is ${now}`
+                });
+            } else if (
+                options.maxValiditySeconds != null &&
+                validUntilTime.gt(toBN(now + options.maxValiditySeconds))
+            ) {
+                violations.push({
+                    path: validUntilPath,
+                    message: `is more than ${options.maxValiditySeconds} seconds in the future`
+                });
+            }
+        }
+    }
+    return { valid: violations.length === 0, violations };
+}
+
+export function validateRelayTransactionRequest(
+    request: RelayTransactionRequest,
+    options: RequestValidationOptions = {}
+): RequestValidationResult {
+    return checkRequest(relayTransactionRequestFields, request, options);
+}
+
+export function validateDeployTransactionRequest(
+    request: DeployTransactionRequest,
+    options: RequestValidationOptions = {}
+): RequestValidationResult {
+    return checkRequest(deployTransactionRequestFields, request, options);
+}
+
+export interface JsonSchema {
+    type: 'object' | 'string' | 'integer';
+    properties?: { [key: string]: JsonSchema };
+    required?: string[];
+    additionalProperties?: boolean;
+    pattern?: string;
+    maxLength?: number;
+    minimum?: number;
+}
+
+function toJsonSchema(table: FieldTable, maxDataBytes: number): JsonSchema {
+    const properties: { [key: string]: JsonSchema } = {};
+    Object.entries(table).forEach(([key, kind]) => {
+        switch (kind) {
+            case 'address':
+                properties[key] = { type: 'string', pattern: addressPattern };
+                break;
+            case 'uint':
+                properties[key] = { type: 'string', pattern: uintPattern };
+                break;
+            case 'bytes':
+                properties[key] = {
+                    type: 'string',
+                    pattern: bytesPattern,
+                    maxLength: 2 + 2 * maxDataBytes
+                };
+                break;
+            case 'signature':
+                properties[key] = { type: 'string', pattern: signaturePattern };
+                break;
+            case 'integer':
+                properties[key] = { type: 'integer', minimum: 0 };
+                break;
+            default:
+                properties[key] = toJsonSchema(kind, maxDataBytes);
+        }
+    });
+    return {
+        type: 'object',
+        properties,
+        required: Object.keys(table),
+        additionalProperties: false
+    };
+}
+
+const schemaNote =
+    'Address checksums, uint256 overflow, validUntilTime and the relayHubAddress match are only checked by the validator functions';
+
+/**
+ * JSON Schema (draft-07) of the relay requests sent to a relay server
+ */
+export const RelayTransactionRequestJsonSchema = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'RelayTransactionRequest',
+    description: schemaNote,
+    ...toJsonSchema(relayTransactionRequestFields, defaultMaxDataBytes)
+};
+
+/**
+ * JSON Schema (draft-07) of the deploy requests sent to a relay server
+ */
+export const DeployTransactionRequestJsonSchema = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'DeployTransactionRequest',
+    description: schemaNote,
+    ...toJsonSchema(deployTransactionRequestFields, defaultMaxDataBytes)
+};
@@ -0,0 +1,422 @@
+import Web3 from 'web3';
+import log from 'loglevel';
+import sigUtil, { EIP712TypedData } from 'eth-sig-util';
+import {
+    PrefixedHexString,
+    Transaction,
+    TransactionOptions
+} from 'ethereumjs-tx';
+import {
+    bufferToHex,
+    ecsign,
+    ECDSASignature,
+    privateToAddress,
+    toBuffer
+} from 'ethereumjs-util';
+import { toChecksumAddress, toHex } from 'web3-utils';
+import { JsonRpcResponse } from 'web3-core-helpers';
+import { DeployRequest, RelayRequest } from '@rsksmart/rif-relay-contracts';
+
+import {
+    getDeployRequestTypedData,
+    getRelayRequestTypedData,
+    recoverTypedDataSigner
+} from './Eip712Utils';
+import { isSameAddress } from './Utils';
+
+/**
+ * The fields of a transaction, as needed to sign it
+ */
+export interface TransactionDetails {
+    from: string;
+    to?: string;
+    nonce: number;
+    gasLimit: string;
+    gasPrice: string;
+    value: string;
+    data: PrefixedHexString;
+}
+
+/**
+ * Signs EIP-712 requests and raw transactions for one account
+ */
+export interface Signer {
+    getAddress(): Promise<string>;
+    signTypedData(typedData: EIP712TypedData): Promise<PrefixedHexString>;
+    /**
+     * @param options - the chain options, see {@link ContractInteractor.getRawTxOptions}
+     * @returns the serialized signed transaction
+     */
+    signTransaction(
+        details: TransactionDetails,
+        options: TransactionOptions
+    ): Promise<PrefixedHexString>;
+}
+
+function createTransaction(
+    details: TransactionDetails,
+    options: TransactionOptions
+): Transaction {
+    return new Transaction(
+        {
+            nonce: toHex(details.nonce),
+            gasLimit: toHex(details.gasLimit),
+            gasPrice: toHex(details.gasPrice),
+            to: details.to,
+            value: toHex(details.value),
+            data: details.data
+        },
+        options
+    );
+}
+
+function serialize(tx: Transaction): PrefixedHexString {
+    return bufferToHex(tx.serialize());
+}
+
+/**
+ * Signs with a private key held in memory
+ */
+export class LocalKeySigner implements Signer {
+    private readonly address: string;
+
+    constructor(private readonly privateKey: Buffer) {
+        this.address = toChecksumAddress(
+            bufferToHex(privateToAddress(privateKey))
+        );
+    }
+
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async getAddress(): Promise<string> {
+        return this.address;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async signTypedData(
+        typedData: EIP712TypedData
+    ): Promise<PrefixedHexString> {
+        return this.signTypedDataSync(typedData);
+    }
+
+    /**
+     * Same as {@link signTypedData}, without waiting: the key is at hand
+     */
+    signTypedDataSync(typedData: EIP712TypedData): PrefixedHexString {
+        // @ts-ignore (the typings of eth-sig-util 2.1 lack the v4 methods)
+        return sigUtil.signTypedData_v4(this.privateKey, { data: typedData });
+    }
+
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async signTransaction(
+        details: TransactionDetails,
+        options: TransactionOptions
+    ): Promise<PrefixedHexString> {
+        const tx = createTransaction(details, options);
+        tx.sign(this.privateKey);
+        return serialize(tx);
+    }
+}
+
+/**
+ * The `eth_signTypedData` method names and whether the typed data is sent as a JSON string
+ */
+export interface TypedDataMethod {
+    methodSuffix: string;
+    jsonStringifyRequest: boolean;
+}
+
+/**
+ * Tried in order by {@link ProviderSigner} when no method is configured
+ */
+export const typedDataMethods: TypedDataMethod[] = [
+    { methodSuffix: '_v4', jsonStringifyRequest: false },
+    { methodSuffix: '_v4', jsonStringifyRequest: true },
+    { methodSuffix: '_v3', jsonStringifyRequest: true },
+    { methodSuffix: '', jsonStringifyRequest: false }
+];
+
+/**
+ * A JSON-RPC error of an `eth_signTypedData` request, with its error code if the node gave one
+ */
+export class TypedDataSigningError extends Error {
+    constructor(message: string, readonly code?: number) {
+        super(message);
+        this.name = 'TypedDataSigningError';
+    }
+}
+
+/**
+ * Whether the node lacks the method, or rejects the typed data format of the variant.
+ * The message is only matched when the node gave no error code.
+ */
+function isUnsupportedMethod(error: TypedDataSigningError): boolean {
+    switch (error.code) {
+        case undefined:
+            return /not (found|supported|available|implemented)|does not exist|unknown method/i.test(
+                error.message
+            );
+        case -32601:
+            return true;
+        case -32602:
+            // e.g. geth given the typed data as a JSON string
+            return /cannot (unmarshal|parse)/i.test(error.message);
+        default:
+            return false;
+    }
+}
+
+/**
+ * Signs through the node or wallet behind a web3 provider, which holds the key
+ */
+export class ProviderSigner implements Signer {
+    private typedDataMethod?: TypedDataMethod;
+
+    /**
+     * @param typedDataMethod - the `eth_signTypedData` variant to use; detected on the first signature if not set
+     */
+    constructor(
+        private readonly web3: Web3,
+        private readonly address: string,
+        typedDataMethod?: TypedDataMethod
+    ) {
+        this.typedDataMethod = typedDataMethod;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async getAddress(): Promise<string> {
+        return this.address;
+    }
+
+    async signTypedData(
+        typedData: EIP712TypedData
+    ): Promise<PrefixedHexString> {
+        if (this.typedDataMethod != null) {
+            return await this._signTypedData(typedData, this.typedDataMethod);
+        }
+        // the detection signature is kept, wallets prompt the user for each one
+        return (await this._detectTypedDataMethod(typedData)).signature;
+    }
+
+    /**
+     * Tries the {@link typedDataMethods} in order and keeps the first one whose
+     * signature recovers to the address
+     * @throws if the provider supports none of them
+     */
+    async detectTypedDataMethod(
+        typedData: EIP712TypedData
+    ): Promise<TypedDataMethod> {
+        return (await this._detectTypedDataMethod(typedData)).method;
+    }
+
+    async _detectTypedDataMethod(
+        typedData: EIP712TypedData
+    ): Promise<{ method: TypedDataMethod; signature: PrefixedHexString }> {
+        for (const method of typedDataMethods) {
+            try {
+                const signature = await this._signTypedData(typedData, method);
+                if (
+                    isSameAddress(
+                        recoverTypedDataSigner(typedData, signature),
+                        this.address
+                    )
+                ) {
+                    log.debug(
+                        `ProviderSigner - using eth_signTypedData${
+                            method.methodSuffix
+                        }${method.jsonStringifyRequest ? ' (stringified)' : ''}`
+                    );
+                    this.typedDataMethod = method;
+                    return { method, signature };
+                }
+            } catch (e) {
+                if (
+                    !(e instanceof TypedDataSigningError) ||
+                    !isUnsupportedMethod(e)
+                ) {
+                    throw e;
+                }
+            }
+        }
+        throw new Error(
+            `The provider supports no eth_signTypedData variant for ${this.address}`
+        );
+    }
+
+    async signTransaction(
+        details: TransactionDetails,
+        options: TransactionOptions
+    ): Promise<PrefixedHexString> {
+        const tx = createTransaction(details, options);
+        const result: any = await this.web3.eth.signTransaction({
+            from: this.address,
+            to: details.to,
+            nonce: details.nonce,
+            gas: toHex(details.gasLimit),
+            gasPrice: toHex(details.gasPrice),
+            value: toHex(details.value),
+            data: details.data,
+            // @ts-ignore (the typings take a number, geth only accepts a hex quantity like the other fields)
+            chainId: toHex(tx.getChainId())
+        });
+        // geth returns { raw, tx }, ganache the raw transaction
+        return typeof result === 'string' ? result : result.raw;
+    }
+
+    /**
+     * Sends the `eth_signTypedData` request as the signer's address, whatever the
+     * typed data message holds
+     * @throws TypedDataSigningError with the JSON-RPC error of the node
+     */
+    async _signTypedData(
+        typedData: EIP712TypedData,
+        method: TypedDataMethod
+    ): Promise<PrefixedHexString> {
+        const data = method.jsonStringifyRequest
+            ? JSON.stringify(typedData)
+            : typedData;
+        // the web3 typings lack sendAsync
+        const provider = this.web3.currentProvider as any;
+        const send = (
+            typeof provider.sendAsync === 'function'
+                ? provider.sendAsync
+                : provider.send
+        ).bind(provider);
+        return await new Promise((resolve, reject) =>
+            send(
+                {
+                    jsonrpc: '2.0',
+                    method: 'eth_signTypedData' + method.methodSuffix,
+                    params: [this.address, data],
+                    from: this.address,
+                    id: Date.now()
+                },
+                (error: any, result?: JsonRpcResponse) => {
+                    const rpcError = result?.error ?? error;
+                    if (rpcError != null || result == null) {
+                        reject(
+                            new TypedDataSigningError(
+                                rpcError?.message ?? String(rpcError),
+                                rpcError?.code
+                            )
+                        );
+                    } else {
+                        resolve(result.result);
+                    }
+                }
+            )
+        );
+    }
+}
+
+/**
+ * A key service that never exposes its keys, only signs 32 bytes digests
+ */
+export interface RemoteKeyService {
+    getAddress(keyId: string): Promise<string>;
+    signDigest(keyId: string, digest: Buffer): Promise<ECDSASignature>;
+}
+
+/**
+ * In-process stand-in for a remote KMS, for tests and local setups
+ */
+export class InMemoryKeyService implements RemoteKeyService {
+    private readonly keys = new Map<string, Buffer>();
+
+    addKey(keyId: string, privateKey: Buffer): void {
+        this.keys.set(keyId, privateKey);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async getAddress(keyId: string): Promise<string> {
+        return toChecksumAddress(
+            bufferToHex(privateToAddress(this._getKey(keyId)))
+        );
+    }
+
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async signDigest(keyId: string, digest: Buffer): Promise<ECDSASignature> {
+        return ecsign(digest, this._getKey(keyId));
+    }
+
+    _getKey(keyId: string): Buffer {
+        const key = this.keys.get(keyId);
+        if (key == null) {
+            throw new Error(`Unknown key ${keyId}`);
+        }
+        return key;
+    }
+}
+
+/**
+ * Signs with a key held by a {@link RemoteKeyService}: the digests are computed
+ * locally and only they are sent to the service
+ */
+export class RemoteKeySigner implements Signer {
+    private address?: string;
+
+    constructor(
+        private readonly service: RemoteKeyService,
+        private readonly keyId: string
+    ) {}
+
+    async getAddress(): Promise<string> {
+        if (this.address == null) {
+            this.address = await this.service.getAddress(this.keyId);
+        }
+        return this.address;
+    }
+
+    async signTypedData(
+        typedData: EIP712TypedData
+    ): Promise<PrefixedHexString> {
+        const digest = sigUtil.TypedDataUtils.sign(typedData);
+        const { v, r, s } = await this.service.signDigest(this.keyId, digest);
+        return sigUtil.concatSig(v, r, s);
+    }
+
+    async signTransaction(
+        details: TransactionDetails,
+        options: TransactionOptions
+    ): Promise<PrefixedHexString> {
+        const tx = createTransaction(details, options);
+        const { v, r, s } = await this.service.signDigest(
+            this.keyId,
+            tx.hash(false)
+        );
+        // same as Transaction.sign
+        // @ts-ignore
+        const eip155: boolean = tx._implementsEIP155();
+        tx.v = toBuffer(eip155 ? v + tx.getChainId() * 2 + 8 : v);
+        tx.r = r;
+        tx.s = s;
+        return serialize(tx);
+    }
+}
+
+/**
+ * Signs the EIP-712 typed data of a relay request, see {@link getRelayRequestTypedData}
+ */
+export async function signRelayRequest(
+    signer: Signer,
+    chainId: number,
+    verifyingContract: string | undefined,
+    relayRequest: RelayRequest
+): Promise<PrefixedHexString> {
+    return await signer.signTypedData(
+        getRelayRequestTypedData(chainId, verifyingContract, relayRequest)
+    );
+}
+
+/**
+ * Signs the EIP-712 typed data of a deploy request, see {@link getDeployRequestTypedData}
+ */
+export async function signDeployRequest(
+    signer: Signer,
+    chainId: number,
+    verifyingContract: string | undefined,
+    deployRequest: DeployRequest
+): Promise<PrefixedHexString> {
+    return await signer.signTypedData(
+        getDeployRequestTypedData(chainId, verifyingContract, deployRequest)
+    );
+}
@@ -0,0 +1,514 @@
+import { EventEmitter } from 'events';
+import log from 'loglevel';
+import { PrefixedHexString, Transaction } from 'ethereumjs-tx';
+import { bufferToHex } from 'ethereumjs-util';
+import { toBN, toChecksumAddress } from 'web3-utils';
+import { TransactionReceipt } from 'web3-core';
+
+import ContractInteractor from './ContractInteractor';
+import { Signer, TransactionDetails } from './Signer';
+import { sleep } from './Utils';
+
+/**
+ * pending → mined → confirmed, or pending → dropped/replaced.
+ * A mined transaction goes back to pending if its block is reorganized away,
+ * and so do the transactions it replaced.
+ */
+export type TrackedTransactionState =
+    | 'pending'
+    | 'mined'
+    | 'confirmed'
+    | 'dropped'
+    | 'replaced';
+
+export type TransactionTrackerEvent =
+    | TrackedTransactionState
+    | 'resent'
+    | 'resendFailed'
+    | 'reorged';
+
+/**
+ * Signs the replacements of stuck transactions
+ */
+export type TransactionSigner = Pick<Signer, 'signTransaction'>;
+
+export interface TrackedTransaction {
+    hash: PrefixedHexString;
+    rawTx: PrefixedHexString;
+    details: TransactionDetails;
+    state: TrackedTransactionState;
+    /**
+     * Time (ms) and block number of the last broadcast
+     */
+    submittedAt: number;
+    submittedBlock: number;
+    /**
+     * Time (ms) of the first broadcast, from which `dropAfterMs` is counted
+     */
+    firstSubmittedAt: number;
+    resendCount: number;
+    /**
+     * Message of the last failed resend, cleared by a successful one
+     */
+    lastError?: string;
+    receipt?: TransactionReceipt;
+    confirmations: number;
+    /**
+     * Hash of the transaction this one replaces, with the same nonce
+     */
+    replaces?: PrefixedHexString;
+    /**
+     * Hash of the transaction mined instead of this one, if known
+     */
+    replacedBy?: PrefixedHexString;
+}
+
+export interface TransactionTrackerOptions {
+    /**
+     * Blocks on top of the receipt's block for a transaction to be confirmed, counting its own
+     */
+    confirmations: number;
+    /**
+     * Broadcast again the pending transactions not mined after this many blocks, 0 to disable
+     */
+    resendAfterBlocks: number;
+    /**
+     * A pending transaction unknown to the node this long after its first broadcast is dropped
+     */
+    dropAfterMs: number;
+    /**
+     * Minimum gas price increase of a replacement; nodes reject smaller bumps
+     */
+    gasBumpPercent: number;
+    pollIntervalMs: number;
+}
+
+const defaultTrackerOptions: TransactionTrackerOptions = {
+    confirmations: 6,
+    resendAfterBlocks: 10,
+    dropAfterMs: 600000,
+    gasBumpPercent: 10,
+    pollIntervalMs: 1000
+};
+
+const finalStates: TrackedTransactionState[] = [
+    'confirmed',
+    'dropped',
+    'replaced'
+];
+
+function isAlreadyKnown(error: any): boolean {
+    const message: string = error?.message ?? String(error);
+    return /already known|known transaction|already imported/i.test(message);
+}
+
+function isNonceTooLow(error: any): boolean {
+    const message: string = error?.message ?? String(error);
+    return /nonce too low|nonce is too low/i.test(message);
+}
+
+/**
+ * Follows broadcast transactions until they are confirmed, dropped or replaced.
+ *
+ * Each {@link poll} reads the receipts of the unsettled transactions, moves them through
+ * their states and emits an event named after the new state with the {@link TrackedTransaction}.
+ * Transactions sharing the sender and nonce compete: once one is mined, the others are replaced.
+ */
+export class TransactionTracker extends EventEmitter {
+    private readonly options: TransactionTrackerOptions;
+    private readonly transactions = new Map<string, TrackedTransaction>();
+
+    constructor(
+        private readonly contractInteractor: ContractInteractor,
+        private readonly signer?: TransactionSigner,
+        options: Partial<TransactionTrackerOptions> = {}
+    ) {
+        super();
+        this.options = { ...defaultTrackerOptions, ...options };
+    }
+
+    /**
+     * Decodes a signed transaction with the chain options of the ContractInteractor
+     */
+    parseRawTransaction(rawTx: PrefixedHexString): TransactionDetails {
+        const tx = new Transaction(
+            rawTx,
+            this.contractInteractor.getRawTxOptions()
+        );
+        return {
+            from: toChecksumAddress(bufferToHex(tx.getSenderAddress())),
+            to:
+                tx.to.length === 0
+                    ? undefined
+                    : toChecksumAddress(bufferToHex(tx.to)),
+            nonce: toBN(bufferToHex(tx.nonce)).toNumber(),
+            gasLimit: toBN(bufferToHex(tx.gasLimit)).toString(),
+            gasPrice: toBN(bufferToHex(tx.gasPrice)).toString(),
+            value: toBN(bufferToHex(tx.value)).toString(),
+            data: bufferToHex(tx.data)
+        };
+    }
+
+    /**
+     * Broadcasts a signed transaction and starts tracking it
+     * @param replaces - hash of the tracked transaction with the same nonce this one replaces
+     */
+    async broadcast(
+        rawTx: PrefixedHexString,
+        replaces?: PrefixedHexString
+    ): Promise<TrackedTransaction> {
+        const hash = await this.contractInteractor.broadcastTransaction(rawTx);
+        return await this.track(rawTx, hash, replaces);
+    }
+
+    /**
+     * Starts tracking a transaction that was already broadcast
+     */
+    async track(
+        rawTx: PrefixedHexString,
+        hash?: PrefixedHexString,
+        replaces?: PrefixedHexString
+    ): Promise<TrackedTransaction> {
+        const details = this.parseRawTransaction(rawTx);
+        const transactionHash =
+            hash ??
+            bufferToHex(
+                new Transaction(
+                    rawTx,
+                    this.contractInteractor.getRawTxOptions()
+                ).hash()
+            );
+        const submittedAt = Date.now();
+        const transaction: TrackedTransaction = {
+            hash: transactionHash,
+            rawTx,
+            details,
+            state: 'pending',
+            submittedAt,
+            submittedBlock: await this.contractInteractor.getBlockNumber(),
+            firstSubmittedAt: submittedAt,
+            resendCount: 0,
+            confirmations: 0,
+            replaces
+        };
+        this.transactions.set(transactionHash.toLowerCase(), transaction);
+        this.emit('pending', transaction);
+        return transaction;
+    }
+
+    get(hash: PrefixedHexString): TrackedTransaction | undefined {
+        return this.transactions.get(hash.toLowerCase());
+    }
+
+    getTransactions(states?: TrackedTransactionState[]): TrackedTransaction[] {
+        return Array.from(this.transactions.values()).filter(
+            (transaction) =>
+                states == null || states.includes(transaction.state)
+        );
+    }
+
+    /**
+     * Broadcasts the same signed transaction again; a node that already has it is not an error
+     * @throws the broadcast error otherwise, also kept in `lastError`
+     */
+    async resend(hash: PrefixedHexString): Promise<TrackedTransaction> {
+        const transaction = this._getUnsettled(hash);
+        try {
+            await this.contractInteractor.broadcastTransaction(
+                transaction.rawTx
+            );
+        } catch (e) {
+            if (!isAlreadyKnown(e)) {
+                transaction.lastError = (e as Error)?.message ?? String(e);
+                throw e;
+            }
+        }
+        transaction.lastError = undefined;
+        transaction.resendCount++;
+        transaction.submittedAt = Date.now();
+        transaction.submittedBlock =
+            await this.contractInteractor.getBlockNumber();
+        this.emit('resent', transaction);
+        return transaction;
+    }
+
+    /**
+     * Signs and broadcasts a transaction with the same nonce and a higher gas price.
+     * The original keeps being tracked: whichever is mined first replaces the other.
+     * @param gasPrice - raised to the minimum bump of `gasBumpPercent` if lower
+     * @throws if the tracker has no signer or the transaction is already mined
+     */
+    async replace(
+        hash: PrefixedHexString,
+        gasPrice?: string
+    ): Promise<TrackedTransaction> {
+        if (this.signer == null) {
+            throw new Error('Cannot replace transactions without a signer');
+        }
+        const transaction = this._getUnsettled(hash);
+        if (transaction.state !== 'pending') {
+            throw new Error(
+                `Transaction ${transaction.hash} is ${transaction.state}, it cannot be replaced`
+            );
+        }
+        const minGasPrice = toBN(transaction.details.gasPrice)
+            .muln(100 + this.options.gasBumpPercent)
+            .divn(100)
+            .addn(1);
+        const newGasPrice =
+            gasPrice != null && toBN(gasPrice).gt(minGasPrice)
+                ? toBN(gasPrice)
+                : minGasPrice;
+        const rawTx = await this.signer.signTransaction(
+            {
+                ...transaction.details,
+                gasPrice: newGasPrice.toString()
+            },
+            this.contractInteractor.getRawTxOptions()
+        );
+        const replacement = await this.broadcast(rawTx, transaction.hash);
+        log.info(
+            `TransactionTracker - replaced ${transaction.hash} by ${
+                replacement.hash
+            } with gas price ${newGasPrice.toString()}`
+        );
+        return replacement;
+    }
+
+    /**
+     * Updates every unsettled transaction once
+     */
+    async poll(): Promise<void> {
+        const blockNumber = await this.contractInteractor.getBlockNumber();
+        for (const transaction of this.getTransactions(['pending', 'mined'])) {
+            // a sibling mined during this loop may have replaced it
+            if (transaction.state === 'replaced') {
+                continue;
+            }
+            await this._update(transaction, blockNumber);
+        }
+    }
+
+    /**
+     * Polls until the transaction is confirmed, dropped or replaced
+     * @throws if the transaction is still unsettled after `timeoutMs`
+     */
+    async waitForSettlement(
+        hash: PrefixedHexString,
+        timeoutMs = 300000
+    ): Promise<TrackedTransaction> {
+        const transaction = this.get(hash);
+        if (transaction == null) {
+            throw new Error(`Transaction ${hash} is not tracked`);
+        }
+        const deadline = Date.now() + timeoutMs;
+        for (;;) {
+            await this.poll();
+            if (finalStates.includes(transaction.state)) {
+                return transaction;
+            }
+            if (Date.now() >= deadline) {
+                throw new Error(
+                    `Transaction ${hash} still ${transaction.state} after ${timeoutMs}ms`
+                );
+            }
+            await sleep(this.options.pollIntervalMs);
+        }
+    }
+
+    /**
+     * Stops tracking the transactions that are confirmed, dropped or replaced
+     */
+    prune(): void {
+        this.getTransactions(finalStates).forEach((transaction) =>
+            this.transactions.delete(transaction.hash.toLowerCase())
+        );
+    }
+
+    async _update(
+        transaction: TrackedTransaction,
+        blockNumber: number
+    ): Promise<void> {
+        const receipt: TransactionReceipt | null =
+            await this.contractInteractor.web3.eth.getTransactionReceipt(
+                transaction.hash
+            );
+        if (receipt != null) {
+            this._setReceipt(transaction, receipt, blockNumber);
+            return;
+        }
+        if (transaction.state === 'mined') {
+            log.warn(
+                `TransactionTracker - receipt of ${transaction.hash} disappeared, block ${transaction.receipt?.blockNumber} was reorganized`
+            );
+            transaction.receipt = undefined;
+            transaction.confirmations = 0;
+            this._setState(transaction, 'pending');
+            this._restoreSiblings(transaction);
+            this.emit('reorged', transaction);
+        }
+        const { from, nonce } = transaction.details;
+        const accountNonce = await this.contractInteractor.getTransactionCount(
+            from,
+            'latest'
+        );
+        if (accountNonce > nonce) {
+            await this._settleUsedNonce(transaction, blockNumber);
+            return;
+        }
+        const known = await this.contractInteractor.getTransaction(
+            transaction.hash
+        );
+        if (
+            known == null &&
+            Date.now() - transaction.firstSubmittedAt >=
+                this.options.dropAfterMs
+        ) {
+            this._setState(transaction, 'dropped');
+            return;
+        }
+        if (
+            this.options.resendAfterBlocks > 0 &&
+            blockNumber - transaction.submittedBlock >=
+                this.options.resendAfterBlocks
+        ) {
+            await this._resend(transaction, blockNumber);
+        }
+    }
+
+    /**
+     * Resends without rejecting the poll: a failure is kept in `lastError`, emitted as
+     * 'resendFailed' and tried again after `resendAfterBlocks`
+     */
+    async _resend(
+        transaction: TrackedTransaction,
+        blockNumber: number
+    ): Promise<void> {
+        try {
+            await this.resend(transaction.hash);
+        } catch (e) {
+            if (isNonceTooLow(e)) {
+                await this._settleUsedNonce(transaction, blockNumber);
+                return;
+            }
+            log.warn(
+                `TransactionTracker - failed to resend ${transaction.hash}: ${transaction.lastError}`
+            );
+            transaction.submittedBlock = blockNumber;
+            this.emit('resendFailed', transaction);
+        }
+    }
+
+    _setReceipt(
+        transaction: TrackedTransaction,
+        receipt: TransactionReceipt,
+        blockNumber: number
+    ): void {
+        transaction.receipt = receipt;
+        transaction.confirmations = blockNumber - receipt.blockNumber + 1;
+        if (transaction.state === 'pending') {
+            this._setState(transaction, 'mined');
+            this._replaceSiblings(transaction);
+        }
+        if (transaction.confirmations >= this.options.confirmations) {
+            this._setState(transaction, 'confirmed');
+        }
+    }
+
+    /**
+     * The nonce is used, by this transaction if it was mined after its receipt was read,
+     * otherwise by another one
+     */
+    async _settleUsedNonce(
+        transaction: TrackedTransaction,
+        blockNumber: number
+    ): Promise<void> {
+        const receipt: TransactionReceipt | null =
+            await this.contractInteractor.web3.eth.getTransactionReceipt(
+                transaction.hash
+            );
+        if (receipt != null) {
+            this._setReceipt(transaction, receipt, blockNumber);
+            return;
+        }
+        this._setReplaced(transaction);
+    }
+
+    /**
+     * Another transaction took the nonce; if it is tracked, its own update links them
+     */
+    _setReplaced(transaction: TrackedTransaction): void {
+        transaction.replacedBy = this._siblings(transaction).find(
+            (sibling) => sibling.receipt != null
+        )?.hash;
+        this._setState(transaction, 'replaced');
+    }
+
+    _getUnsettled(hash: PrefixedHexString): TrackedTransaction {
+        const transaction = this.get(hash);
+        if (transaction == null) {
+            throw new Error(`Transaction ${hash} is not tracked`);
+        }
+        if (finalStates.includes(transaction.state)) {
+            throw new Error(
+                `Transaction ${hash} is already ${transaction.state}`
+            );
+        }
+        return transaction;
+    }
+
+    /**
+     * @returns the other tracked transactions with the same sender and nonce
+     */
+    _siblings(transaction: TrackedTransaction): TrackedTransaction[] {
+        return this.getTransactions().filter(
+            (other) =>
+                other !== transaction &&
+                other.details.from === transaction.details.from &&
+                other.details.nonce === transaction.details.nonce
+        );
+    }
+
+    _replaceSiblings(mined: TrackedTransaction): void {
+        this._siblings(mined)
+            .filter(
+                (sibling) =>
+                    sibling.state === 'pending' ||
+                    (sibling.state === 'replaced' && sibling.replacedBy == null)
+            )
+            .forEach((sibling) => {
+                sibling.replacedBy = mined.hash;
+                this._setState(sibling, 'replaced');
+            });
+    }
+
+    /**
+     * The siblings replaced by a reorganized transaction compete again for the nonce
+     */
+    _restoreSiblings(reorged: TrackedTransaction): void {
+        this._siblings(reorged)
+            .filter(
+                (sibling) =>
+                    sibling.state === 'replaced' &&
+                    sibling.replacedBy === reorged.hash
+            )
+            .forEach((sibling) => {
+                sibling.replacedBy = undefined;
+                this._setState(sibling, 'pending');
+            });
+    }
+
+    _setState(
+        transaction: TrackedTransaction,
+        state: TrackedTransactionState
+    ): void {
+        if (transaction.state === state) {
+            return;
+        }
+        log.debug(
+            `TransactionTracker - ${transaction.hash} ${transaction.state} -> ${state}`
+        );
+        transaction.state = state;
+        this.emit(state, transaction);
+    }
+}
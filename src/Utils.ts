@@ -1,23 +1,26 @@
-import abi from 'web3-eth-abi';
-import { toBN } from 'web3-utils';
-import sigUtil, { EIP712TypedData } from 'eth-sig-util';
+import web3Abi, { AbiCoder } from 'web3-eth-abi';
+import { EIP712TypedData } from 'eth-sig-util';
 import { EventData } from 'web3-eth-contract';
 import { JsonRpcResponse } from 'web3-core-helpers';
 import { PrefixedHexString } from 'ethereumjs-tx';
-import { arrayify } from '@ethersproject/bytes';
 import {
-    IRelayHub,
     RelayManagerData,
     DeployRequest,
     RelayRequest
 } from '@rsksmart/rif-relay-contracts';
-import { constants } from './Constants';
+import { defaultErrorDecoder } from './ErrorDecoder';
+import { defaultEnvironment } from './Environments';
+import { GasModel, GasModelCoefficients } from './GasModel';
+import { CalldataPricing, intrinsicGasCost } from './CalldataCost';
+import { abiHubCallEncoder, HubCallEncoder } from './RelayHubCalldata';
+import { LocalKeySigner } from './Signer';
 import chalk from 'chalk';
 import {
     DeployTransactionRequest,
     RelayTransactionRequest
 } from './types/RelayTransactionRequest';
-import TruffleContract = require('@truffle/contract');
+
+const abi = web3Abi as unknown as AbiCoder;
 
 export function removeHexPrefix(hex: string): string {
     if (hex == null || typeof hex.replace !== 'function') {
@@ -45,12 +48,9 @@ export function event2topic(contract: any, names: string[]): any {
     if (typeof names === 'string') {
         return event2topic(contract, [names])[0];
     }
-    return (
-        contract.options.jsonInterface
-            .filter((e: any) => names.includes(e.name))
-            // @ts-ignore
-            .map(abi.encodeEventSignature)
-    );
+    return contract.options.jsonInterface
+        .filter((e: any) => names.includes(e.name))
+        .map(abi.encodeEventSignature);
 }
 
 export function addresses2topics(addresses: string[]): string[] {
@@ -61,7 +61,7 @@ export function address2topic(address: string): string {
     return '0x' + '0'.repeat(24) + address.toLowerCase().slice(2);
 }
 
-// extract revert reason from a revert bytes array.
+// extract revert reason from a revert bytes array: Error(string), Panic(uint256) or a known custom error.
 export function decodeRevertReason(
     revertBytes: PrefixedHexString,
     throwOnError = false
@@ -69,24 +69,29 @@ export function decodeRevertReason(
     if (revertBytes == null) {
         return null;
     }
-    if (!revertBytes.startsWith('0x08c379a0')) {
+    const decoded = defaultErrorDecoder.decodeRevertData(revertBytes);
+    if (decoded.kind === 'unknown') {
         if (throwOnError) {
             throw new Error('invalid revert bytes: ' + revertBytes);
         }
         return revertBytes;
     }
-    // @ts-ignore
-    return abi.decodeParameter('string', '0x' + revertBytes.slice(10)) as any;
+    return decoded.reason;
 }
 
+/**
+ * @see LocalKeySigner, which also signs raw transactions
+ */
 export function getLocalEip712Signature(
     typedRequestData: EIP712TypedData,
     privateKey: Buffer
 ): PrefixedHexString {
-    // @ts-ignore
-    return sigUtil.signTypedData_v4(privateKey, { data: typedRequestData });
+    return new LocalKeySigner(privateKey).signTypedDataSync(typedRequestData);
 }
 
+/**
+ * @see ProviderSigner, which detects the `methodSuffix` and `jsonStringifyRequest` the provider needs
+ */
 export async function getEip712Signature(
     web3: Web3,
     typedRequestData: EIP712TypedData,
@@ -136,18 +141,13 @@ export async function getEip712Signature(
  */
 export function calculateDeployTransactionMaxPossibleGas(
     estimatedDeployGas: string,
-    estimatedTokenPaymentGas?: string
+    estimatedTokenPaymentGas?: string,
+    coefficients: GasModelCoefficients = defaultEnvironment.gasModel
 ): BN {
-    if (
-        estimatedTokenPaymentGas === undefined ||
-        estimatedTokenPaymentGas == null ||
-        toBN(estimatedTokenPaymentGas).isZero()
-    ) {
-        // Subsidized case
-        return toBN(estimatedDeployGas).add(toBN('12000'));
-    } else {
-        return toBN(estimatedDeployGas);
-    }
+    return new GasModel(coefficients).estimateMaxPossibleDeployGas(
+        estimatedDeployGas,
+        estimatedTokenPaymentGas
+    );
 }
 
 /**
@@ -159,28 +159,19 @@ export function calculateDeployTransactionMaxPossibleGas(
 export function estimateMaxPossibleRelayCallWithLinearFit(
     relayCallGasLimit: number,
     tokenPaymentGas: number,
-    addCushion = false
+    addCushion = false,
+    coefficients: GasModelCoefficients = defaultEnvironment.gasModel,
+    estimatedGasCorrectionFactor: number = defaultEnvironment.gasConstants
+        .estimatedGasCorrectionFactor
 ): number {
-    const cushion = addCushion
-        ? constants.ESTIMATED_GAS_CORRECTION_FACTOR
-        : 1.0;
-
-    if (toBN(tokenPaymentGas).isZero()) {
-        // Subsidized case
-        // y = a0 + a1 * x = 85090.977 + 1.067 * x
-        const a0 = Number('85090.977');
-        const a1 = Number('1.067');
-        const estimatedCost = a1 * relayCallGasLimit + a0;
-        const costWithCushion = Math.ceil(estimatedCost * cushion);
-        return costWithCushion;
-    } else {
-        // y = a0 + a1 * x = 72530.9611 + 1.1114 * x
-        const a0 = Number('72530.9611');
-        const a1 = Number('1.1114');
-        const estimatedCost = a1 * (relayCallGasLimit + tokenPaymentGas) + a0;
-        const costWithCushion = Math.ceil(estimatedCost * cushion);
-        return costWithCushion;
-    }
+    return new GasModel(
+        coefficients,
+        estimatedGasCorrectionFactor
+    ).estimateMaxPossibleRelayGas(
+        relayCallGasLimit,
+        tokenPaymentGas,
+        addCushion
+    );
 }
 
 export function parseHexString(str: string): number[] {
@@ -260,60 +251,32 @@ export function boolString(bool: boolean): string {
         : chalk.red('wrong'.padEnd(14));
 }
 
-function isDeployRequest(req: any): boolean {
+export function isDeployRequest(
+    req: RelayTransactionRequest | DeployTransactionRequest
+): req is DeployTransactionRequest {
     let isDeploy = false;
-    if (req.relayRequest.request.recoverer !== undefined) {
+    if ((req.relayRequest as DeployRequest).request.recoverer !== undefined) {
         isDeploy = true;
     }
     return isDeploy;
 }
 
+/**
+ * @returns the intrinsic gas of the worker transaction that carries this request
+ * @param pricing - the calldata rules of the network, RSK's by default
+ * @param encoder - encodes the hub call, from the ABI by default
+ */
 export function transactionParamDataCost(
-    req: RelayTransactionRequest | DeployTransactionRequest
+    req: RelayTransactionRequest | DeployTransactionRequest,
+    pricing: CalldataPricing = defaultEnvironment.gasConstants,
+    encoder: HubCallEncoder = abiHubCallEncoder
 ): number {
-    // @ts-ignore
-    const IRelayHubContract = TruffleContract({
-        contractName: 'IRelayHub',
-        abi: IRelayHub.abi
-    });
-    IRelayHubContract.setProvider(web3.currentProvider, undefined);
-
-    const relayHub = new IRelayHubContract('');
-
-    const isDeploy = isDeployRequest(req);
-    const method = isDeploy
-        ? relayHub.contract.methods.deployCall(
-              req.relayRequest as DeployRequest,
-              req.metadata.signature
-          )
-        : relayHub.contract.methods.relayCall(
+    const encodedCall = isDeployRequest(req)
+        ? encoder.encodeDeployCall(req.relayRequest, req.metadata.signature)
+        : encoder.encodeRelayCall(
               req.relayRequest as RelayRequest,
               req.metadata.signature
           );
 
-    const encodedCall = method.encodeABI() ?? '0x';
-
-    const dataAsByteArray: Uint8Array = arrayify(encodedCall);
-    const nonZeroes = nonZeroDataBytes(dataAsByteArray);
-
-    const zeroVals = dataAsByteArray.length - nonZeroes;
-
-    return (
-        constants.TRANSACTION_GAS_COST +
-        zeroVals * constants.TX_ZERO_DATA_GAS_COST +
-        nonZeroes * constants.TX_NO_ZERO_DATA_GAS_COST
-    );
-}
-
-function nonZeroDataBytes(data: Uint8Array): number {
-    let counter = 0;
-
-    for (let i = 0; i < data.length; i++) {
-        const byte = data[i];
-        if (byte !== 0) {
-            ++counter;
-        }
-    }
-
-    return counter;
+    return intrinsicGasCost(encodedCall, false, pricing);
 }
@@ -0,0 +1,204 @@
+import log from 'loglevel';
+import { HttpProvider } from 'web3-core';
+import { JsonRpcPayload, JsonRpcResponse } from 'web3-core-helpers';
+
+import { SendCallback } from './SendCallback';
+import { WrapperProviderBase } from './WrapperProviderBase';
+
+export interface BatchingProviderOptions {
+    maxBatchSize: number;
+    /**
+     * How long requests are collected before being sent; 0 for the requests made
+     * in the same tick
+     */
+    windowMs: number;
+    /**
+     * Methods without side effects: identical requests in flight are sent once
+     */
+    readMethods: string[];
+}
+
+const defaultBatchingOptions: BatchingProviderOptions = {
+    maxBatchSize: 50,
+    windowMs: 0,
+    readMethods: [
+        'eth_blockNumber',
+        'eth_call',
+        'eth_chainId',
+        'eth_estimateGas',
+        'eth_gasPrice',
+        'eth_getBalance',
+        'eth_getBlockByHash',
+        'eth_getBlockByNumber',
+        'eth_getCode',
+        'eth_getLogs',
+        'eth_getStorageAt',
+        'eth_getTransactionByHash',
+        'eth_getTransactionCount',
+        'eth_getTransactionReceipt',
+        'net_version'
+    ]
+};
+
+const batchUnsupportedPattern =
+    /batch.*(not (supported|allowed|enabled)|unsupported|disabled)/i;
+
+interface Caller {
+    id: JsonRpcPayload['id'];
+    callback: SendCallback;
+}
+
+interface QueuedRequest {
+    payload: JsonRpcPayload;
+    callers: Caller[];
+    key?: string;
+}
+
+/**
+ * Sends the requests made together as JSON-RPC batches, and identical read
+ * requests in flight (same method and params, block tag included) once.
+ *
+ * If the node answers a batch with an error saying batches are not supported, batching
+ * is turned off and the requests are sent one by one from then on. Other errors of a
+ * whole batch, e.g. over a size or rate limit, split it in halves that are sent again.
+ */
+export class BatchingProvider extends WrapperProviderBase {
+    private readonly options: BatchingProviderOptions;
+    private queue: QueuedRequest[] = [];
+    private readonly inFlight = new Map<string, QueuedRequest>();
+    private timer?: NodeJS.Timeout;
+    private nextId = 1;
+    batchingSupported = true;
+
+    constructor(
+        provider: HttpProvider,
+        options: Partial<BatchingProviderOptions> = {}
+    ) {
+        super(provider);
+        this.options = { ...defaultBatchingOptions, ...options };
+    }
+
+    send(payload: JsonRpcPayload, callback: SendCallback): void {
+        // batches of the caller are sent as they are
+        if (Array.isArray(payload)) {
+            this.provider.send(payload, callback);
+            return;
+        }
+        const caller = { id: payload.id, callback };
+        const key = this.options.readMethods.includes(payload.method)
+            ? `${payload.method}:${JSON.stringify(payload.params ?? [])}`
+            : undefined;
+        const pending = key != null ? this.inFlight.get(key) : undefined;
+        if (pending != null) {
+            pending.callers.push(caller);
+            return;
+        }
+        const request: QueuedRequest = {
+            payload: { ...payload, id: this.nextId++ },
+            callers: [caller],
+            key
+        };
+        if (key != null) {
+            this.inFlight.set(key, request);
+        }
+        this.queue.push(request);
+        if (this.queue.length >= this.options.maxBatchSize) {
+            this.flush();
+        } else if (this.timer == null) {
+            this.timer = setTimeout(() => this.flush(), this.options.windowMs);
+        }
+    }
+
+    /**
+     * Sends the queued requests now
+     */
+    flush(): void {
+        if (this.timer != null) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        while (this.queue.length > 0) {
+            const batch = this.queue.splice(0, this.options.maxBatchSize);
+            if (batch.length === 1 || !this.batchingSupported) {
+                batch.forEach((request) => this._sendOne(request));
+            } else {
+                this._sendBatch(batch);
+            }
+        }
+    }
+
+    _sendBatch(batch: QueuedRequest[]): void {
+        this.provider.send(
+            batch.map(
+                (request) => request.payload
+            ) as unknown as JsonRpcPayload,
+            (error: Error | null, result?: any) => {
+                if (error != null) {
+                    batch.forEach((request) => this._settle(request, error));
+                    return;
+                }
+                if (!Array.isArray(result)) {
+                    const message: string =
+                        result?.error?.message ?? JSON.stringify(result);
+                    if (batchUnsupportedPattern.test(message)) {
+                        log.warn(
+                            `BatchingProvider - ${this.host} does not support batches, sending requests one by one`
+                        );
+                        this.batchingSupported = false;
+                        batch.forEach((request) => this._sendOne(request));
+                        return;
+                    }
+                    log.debug(
+                        `BatchingProvider - ${this.host} rejected a batch of ${batch.length} (${message}), splitting it`
+                    );
+                    const half = Math.floor(batch.length / 2);
+                    [batch.slice(0, half), batch.slice(half)].forEach((part) =>
+                        part.length === 1
+                            ? this._sendOne(part[0])
+                            : this._sendBatch(part)
+                    );
+                    return;
+                }
+                const responses = new Map<unknown, JsonRpcResponse>(
+                    result.map((response: JsonRpcResponse) => [
+                        response.id,
+                        response
+                    ])
+                );
+                batch.forEach((request) => {
+                    const response = responses.get(request.payload.id);
+                    if (response != null) {
+                        this._settle(request, null, response);
+                    } else {
+                        // left out by the node, e.g. over its batch limit
+                        this._sendOne(request);
+                    }
+                });
+            }
+        );
+    }
+
+    _sendOne(request: QueuedRequest): void {
+        this.provider.send(
+            request.payload,
+            (error: Error | null, response?: JsonRpcResponse) =>
+                this._settle(request, error, response)
+        );
+    }
+
+    _settle(
+        request: QueuedRequest,
+        error: Error | null,
+        response?: JsonRpcResponse
+    ): void {
+        if (request.key != null) {
+            this.inFlight.delete(request.key);
+        }
+        request.callers.forEach(({ id, callback }) =>
+            callback(
+                error,
+                response != null ? { ...response, id: id as number } : undefined
+            )
+        );
+    }
+}
@@ -0,0 +1,276 @@
+import log from 'loglevel';
+import { HttpProvider } from 'web3-core';
+import { JsonRpcPayload, JsonRpcResponse } from 'web3-core-helpers';
+import { keccak256 } from 'web3-utils';
+
+import { SendCallback } from './SendCallback';
+import { WrapperProviderBase } from './WrapperProviderBase';
+
+export interface CachingProviderOptions {
+    /**
+     * Cached methods and how long their responses are kept, within the block they were read at
+     */
+    ttlMs: { [method: string]: number };
+    /**
+     * Entries kept, the least recently used are evicted first
+     */
+    maxEntries: number;
+    /**
+     * How long the block number is trusted before being read again
+     */
+    blockPollMs: number;
+    /**
+     * Functions without arguments whose result never changes, e.g. the token metadata,
+     * kept for good once read
+     */
+    immutableCalls: string[];
+}
+
+const defaultCachingOptions: CachingProviderOptions = {
+    ttlMs: {
+        eth_call: 30000,
+        eth_getBalance: 30000,
+        eth_getCode: 30000,
+        eth_getStorageAt: 30000,
+        eth_getTransactionCount: 30000,
+        eth_gasPrice: 10000,
+        eth_chainId: Infinity,
+        net_version: Infinity
+    },
+    maxEntries: 1000,
+    blockPollMs: 1000,
+    immutableCalls: ['name()', 'symbol()', 'decimals()', 'versionHub()']
+};
+
+/**
+ * Position of the block tag in the params of the methods that take one
+ */
+const blockTagIndex: { [method: string]: number } = {
+    eth_call: 1,
+    eth_getBalance: 1,
+    eth_getCode: 1,
+    eth_getStorageAt: 2,
+    eth_getTransactionCount: 1
+};
+
+export interface CacheStats {
+    hits: number;
+    misses: number;
+    entries: number;
+}
+
+interface CacheEntry {
+    response: JsonRpcResponse;
+    expiresAt: number;
+    /**
+     * The block a 'latest' read was made at; the entry is dropped on the next block
+     */
+    latestAt?: number;
+}
+
+/**
+ * Caches the responses of read requests, by block: the requests for the 'latest'
+ * block are answered from the cache until a new block is seen, or their method TTL
+ * elapses. Reads of a given block are cached for the TTL, and contract code and the
+ * {@link CachingProviderOptions.immutableCalls} for good.
+ *
+ * Requests for the 'pending' block, errors and methods without a TTL are never cached.
+ */
+export class CachingProvider extends WrapperProviderBase {
+    private readonly options: CachingProviderOptions;
+    private readonly immutableSelectors: string[];
+    private readonly entries = new Map<string, CacheEntry>();
+    private blockNumber?: number;
+    private blockNumberReadAt = 0;
+    private blockNumberRequest?: Promise<number>;
+    private hits = 0;
+    private misses = 0;
+
+    constructor(
+        provider: HttpProvider,
+        options: Partial<CachingProviderOptions> = {}
+    ) {
+        super(provider);
+        this.options = {
+            ...defaultCachingOptions,
+            ...options,
+            ttlMs: { ...defaultCachingOptions.ttlMs, ...options.ttlMs }
+        };
+        this.immutableSelectors = this.options.immutableCalls.map((signature) =>
+            keccak256(signature).slice(0, 10)
+        );
+    }
+
+    getStats(): CacheStats {
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            entries: this.entries.size
+        };
+    }
+
+    clear(): void {
+        this.entries.clear();
+        this.blockNumber = undefined;
+        this.blockNumberReadAt = 0;
+    }
+
+    send(payload: JsonRpcPayload, callback: SendCallback): void {
+        if (
+            Array.isArray(payload) ||
+            this.options.ttlMs[payload.method] == null
+        ) {
+            this.provider.send(payload, callback);
+            return;
+        }
+        this._sendCached(payload).then(
+            (response) => callback(null, response),
+            (error) => callback(error)
+        );
+    }
+
+    async _sendCached(payload: JsonRpcPayload): Promise<JsonRpcResponse> {
+        const params = payload.params ?? [];
+        const index = blockTagIndex[payload.method];
+        const blockTag = index != null ? params[index] ?? 'latest' : 'latest';
+        if (blockTag === 'pending') {
+            return await this._send(payload);
+        }
+        const target = `${payload.method}:${JSON.stringify(
+            index != null ? params.slice(0, index) : params
+        )}`;
+        const immutable = this._isImmutable(payload.method, params);
+        const kept = immutable ? this._lookup(target, payload) : undefined;
+        if (kept != null) {
+            return kept;
+        }
+        const block =
+            blockTag === 'latest' ? await this._getBlockNumber() : blockTag;
+        // EIP-1898 block objects included
+        const key = `${target}@${JSON.stringify(block)}`;
+        const cached = this._lookup(key, payload);
+        if (cached != null) {
+            return cached;
+        }
+        this.misses++;
+        const response = await this._send(payload);
+        if (response.error != null) {
+            return response;
+        }
+        // a missing contract may be deployed later, it is only cached by block
+        const missingCode =
+            payload.method === 'eth_getCode' &&
+            /^0x0*$/.test(response.result ?? '');
+        if (immutable && !missingCode) {
+            this._store(target, { response, expiresAt: Infinity });
+        } else {
+            this._store(key, {
+                response,
+                expiresAt: Date.now() + this.options.ttlMs[payload.method],
+                latestAt: blockTag === 'latest' ? block : undefined
+            });
+        }
+        return response;
+    }
+
+    _lookup(key: string, payload: JsonRpcPayload): JsonRpcResponse | undefined {
+        const entry = this.entries.get(key);
+        if (entry == null || entry.expiresAt <= Date.now()) {
+            return undefined;
+        }
+        this.hits++;
+        // the most recently used entries are at the end of the map
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return { ...entry.response, id: payload.id as number };
+    }
+
+    _isImmutable(method: string, params: any[]): boolean {
+        if (method === 'eth_getCode') {
+            return true;
+        }
+        if (method !== 'eth_call') {
+            return this.options.ttlMs[method] === Infinity;
+        }
+        const data: string = params[0]?.data ?? params[0]?.input ?? '';
+        return this.immutableSelectors.includes(data.toLowerCase());
+    }
+
+    _store(key: string, entry: CacheEntry): void {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        while (this.entries.size > this.options.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+    }
+
+    async _getBlockNumber(): Promise<number> {
+        if (
+            this.blockNumber != null &&
+            Date.now() - this.blockNumberReadAt < this.options.blockPollMs
+        ) {
+            return this.blockNumber;
+        }
+        if (this.blockNumberRequest == null) {
+            this.blockNumberRequest = this._readBlockNumber().finally(() => {
+                this.blockNumberRequest = undefined;
+            });
+        }
+        return await this.blockNumberRequest;
+    }
+
+    async _readBlockNumber(): Promise<number> {
+        const response = await this._send({
+            jsonrpc: '2.0',
+            method: 'eth_blockNumber',
+            params: [],
+            id: Date.now()
+        });
+        if (response.error != null) {
+            throw new Error(
+                `Cannot read the block number: ${JSON.stringify(
+                    response.error
+                )}`
+            );
+        }
+        const blockNumber = parseInt(response.result);
+        this.blockNumberReadAt = Date.now();
+        if (blockNumber !== this.blockNumber) {
+            this._invalidate(blockNumber);
+            this.blockNumber = blockNumber;
+        }
+        return blockNumber;
+    }
+
+    /**
+     * Drops the 'latest' reads of the blocks before the new one
+     */
+    _invalidate(blockNumber: number): void {
+        let dropped = 0;
+        this.entries.forEach((entry, key) => {
+            if (entry.latestAt != null && entry.latestAt !== blockNumber) {
+                this.entries.delete(key);
+                dropped++;
+            }
+        });
+        log.debug(
+            `CachingProvider - block ${blockNumber}, dropped ${dropped} entries`
+        );
+    }
+
+    async _send(payload: JsonRpcPayload): Promise<JsonRpcResponse> {
+        return await new Promise((resolve, reject) => {
+            this.provider.send(
+                payload,
+                (error: Error | null, response?: JsonRpcResponse) => {
+                    if (error != null || response == null) {
+                        reject(error ?? new Error('Empty JSON-RPC response'));
+                    } else {
+                        resolve(response);
+                    }
+                }
+            );
+        });
+    }
+}
@@ -0,0 +1,358 @@
+import log from 'loglevel';
+import { HttpProvider } from 'web3-core';
+import { JsonRpcPayload, JsonRpcResponse } from 'web3-core-helpers';
+
+import { SendCallback } from './SendCallback';
+import { WrapperProviderBase } from './WrapperProviderBase';
+
+export interface FailoverEndpoint {
+    provider: HttpProvider;
+    /**
+     * Lower is preferred; the position in the list by default
+     */
+    priority?: number;
+    name?: string;
+}
+
+export interface EndpointHealth {
+    name: string;
+    priority: number;
+    healthy: boolean;
+    /**
+     * Moving averages of the response time and of the share of failed requests
+     */
+    latencyMs: number;
+    errorRate: number;
+    blockNumber?: number;
+    /**
+     * Blocks behind the most advanced endpoint on the last health check
+     */
+    blockLag: number;
+    lastError?: string;
+}
+
+export interface FailoverProviderOptions {
+    maxLatencyMs: number;
+    maxErrorRate: number;
+    maxBlockLag: number;
+    /**
+     * Weight of the latest request in the moving averages
+     */
+    smoothing: number;
+    /**
+     * An endpoint with a connection error is skipped for this long, unless all are down
+     */
+    retryAfterMs: number;
+    /**
+     * A request without an answer after this long fails over like a connection error,
+     * unless it is a {@link nonIdempotentMethods} one
+     */
+    requestTimeoutMs: number;
+    /**
+     * How often the requests trigger a {@link FailoverProvider.checkHealth} in the background,
+     * through which the failed and lagging endpoints recover; 0 to disable
+     */
+    healthCheckIntervalMs: number;
+    /**
+     * Methods routed to the same endpoint while it works, so that the nonces read
+     * and the transactions sent are seen by the same node
+     */
+    stickyMethods: string[];
+    /**
+     * Methods not sent again after a timeout, as the node may have received them:
+     * their {@link RequestTimeoutError} is returned instead
+     */
+    nonIdempotentMethods: string[];
+}
+
+const defaultFailoverOptions: FailoverProviderOptions = {
+    maxLatencyMs: 5000,
+    maxErrorRate: 0.5,
+    maxBlockLag: 3,
+    smoothing: 0.3,
+    retryAfterMs: 30000,
+    requestTimeoutMs: 10000,
+    healthCheckIntervalMs: 30000,
+    stickyMethods: [
+        'eth_getTransactionCount',
+        'eth_sendRawTransaction',
+        'eth_sendTransaction',
+        'eth_getTransactionByHash',
+        'eth_getTransactionReceipt'
+    ],
+    nonIdempotentMethods: [
+        'eth_sendRawTransaction',
+        'eth_sendTransaction',
+        'personal_sendTransaction'
+    ]
+};
+
+interface EndpointState extends Omit<EndpointHealth, 'healthy'> {
+    provider: HttpProvider;
+    downUntil: number;
+}
+
+export class RequestTimeoutError extends Error {
+    constructor(readonly endpoint: string, readonly timeoutMs: number) {
+        super(`${endpoint} timed out after ${timeoutMs}ms`);
+        this.name = 'RequestTimeoutError';
+    }
+}
+
+function getMethods(payload: JsonRpcPayload | JsonRpcPayload[]): string[] {
+    return Array.isArray(payload)
+        ? payload.map((item) => item.method)
+        : [payload.method];
+}
+
+/**
+ * Sends each request to the best of several nodes, and to the next one on connection errors.
+ *
+ * Endpoints are ranked by health, then priority, then latency. An endpoint is healthy while its
+ * latency, error rate and block lag (see {@link checkHealth}) are under the limits and it had
+ * no connection error or timeout in the last `retryAfterMs`. JSON-RPC errors are answers of
+ * the node: they are returned as is and do not fail over. Neither do the transactions sent
+ * that time out, which the node may have received.
+ *
+ * Latency and error rate only move with the requests an endpoint gets, so the health checks run
+ * every `healthCheckIntervalMs` also measure the endpoints the traffic avoids.
+ */
+export class FailoverProvider extends WrapperProviderBase {
+    private readonly options: FailoverProviderOptions;
+    private readonly endpoints: EndpointState[];
+    private stickyEndpoint?: EndpointState;
+    private lastHealthCheck: number;
+
+    constructor(
+        endpoints: Array<HttpProvider | FailoverEndpoint>,
+        options: Partial<FailoverProviderOptions> = {}
+    ) {
+        if (endpoints.length === 0) {
+            throw new Error('FailoverProvider needs at least one endpoint');
+        }
+        const states = endpoints.map((endpoint, index): EndpointState => {
+            const { provider, priority, name } =
+                'provider' in endpoint
+                    ? endpoint
+                    : {
+                          provider: endpoint,
+                          priority: undefined,
+                          name: undefined
+                      };
+            return {
+                provider,
+                name: name ?? provider.host ?? `endpoint ${index}`,
+                priority: priority ?? index,
+                latencyMs: 0,
+                errorRate: 0,
+                blockLag: 0,
+                downUntil: 0
+            };
+        });
+        super(states[0].provider);
+        this.endpoints = states;
+        this.options = { ...defaultFailoverOptions, ...options };
+        this.lastHealthCheck = Date.now();
+    }
+
+    disconnect(): boolean {
+        return this.endpoints
+            .map((endpoint) => endpoint.provider.disconnect())
+            .every((disconnected) => disconnected);
+    }
+
+    supportsSubscriptions(): boolean {
+        return false;
+    }
+
+    getHealth(): EndpointHealth[] {
+        return this.endpoints.map((endpoint) => ({
+            name: endpoint.name,
+            priority: endpoint.priority,
+            healthy: this._isHealthy(endpoint),
+            latencyMs: endpoint.latencyMs,
+            errorRate: endpoint.errorRate,
+            blockNumber: endpoint.blockNumber,
+            blockLag: endpoint.blockLag,
+            lastError: endpoint.lastError
+        }));
+    }
+
+    /**
+     * Reads the block number of every endpoint, to compute their block lag
+     */
+    async checkHealth(): Promise<EndpointHealth[]> {
+        this.lastHealthCheck = Date.now();
+        await Promise.all(
+            this.endpoints.map(async (endpoint) => {
+                try {
+                    const response = await this._sendTo(endpoint, {
+                        jsonrpc: '2.0',
+                        method: 'eth_blockNumber',
+                        params: [],
+                        id: Date.now()
+                    });
+                    if (response.error == null) {
+                        endpoint.blockNumber = parseInt(response.result);
+                    }
+                } catch (e) {
+                    // recorded in the endpoint health
+                }
+            })
+        );
+        const highest = Math.max(
+            ...this.endpoints.map((endpoint) => endpoint.blockNumber ?? 0)
+        );
+        this.endpoints.forEach((endpoint) => {
+            endpoint.blockLag = highest - (endpoint.blockNumber ?? 0);
+        });
+        return this.getHealth();
+    }
+
+    send(payload: JsonRpcPayload, callback: SendCallback): void {
+        this._checkHealthIfDue();
+        const methods = getMethods(payload);
+        const sticky = methods.some((method) =>
+            this.options.stickyMethods.includes(method)
+        );
+        const idempotent = !methods.some((method) =>
+            this.options.nonIdempotentMethods.includes(method)
+        );
+        this._sendWithFailover(payload, sticky, idempotent).then(
+            (response) => callback(null, response),
+            (error) => callback(error)
+        );
+    }
+
+    async _sendWithFailover(
+        payload: JsonRpcPayload,
+        sticky: boolean,
+        idempotent = true
+    ): Promise<JsonRpcResponse> {
+        let lastError: Error | undefined;
+        for (const endpoint of this._rank(sticky)) {
+            try {
+                const response = await this._sendTo(endpoint, payload);
+                this.provider = endpoint.provider;
+                if (sticky && this.stickyEndpoint !== endpoint) {
+                    if (this.stickyEndpoint != null) {
+                        log.warn(
+                            `FailoverProvider - consistent requests moved from ${this.stickyEndpoint.name} to ${endpoint.name}`
+                        );
+                    }
+                    this.stickyEndpoint = endpoint;
+                }
+                return response;
+            } catch (e) {
+                lastError = e as Error;
+                log.warn(
+                    `FailoverProvider - ${endpoint.name} failed: ${lastError.message}`
+                );
+                if (!idempotent && e instanceof RequestTimeoutError) {
+                    throw e;
+                }
+            }
+        }
+        throw lastError ?? new Error('No endpoint available');
+    }
+
+    _checkHealthIfDue(): void {
+        const { healthCheckIntervalMs } = this.options;
+        if (
+            healthCheckIntervalMs > 0 &&
+            Date.now() - this.lastHealthCheck >= healthCheckIntervalMs
+        ) {
+            // checkHealth records the failures in the endpoint health, it does not reject
+            void this.checkHealth();
+        }
+    }
+
+    /**
+     * @returns the endpoints in the order they are tried
+     */
+    _rank(sticky: boolean): EndpointState[] {
+        const ranked = [...this.endpoints].sort(
+            (a, b) =>
+                Number(this._isHealthy(b)) - Number(this._isHealthy(a)) ||
+                a.priority - b.priority ||
+                a.latencyMs - b.latencyMs
+        );
+        const stickyEndpoint = this.stickyEndpoint;
+        if (
+            sticky &&
+            stickyEndpoint != null &&
+            this._isHealthy(stickyEndpoint)
+        ) {
+            return [
+                stickyEndpoint,
+                ...ranked.filter((endpoint) => endpoint !== stickyEndpoint)
+            ];
+        }
+        return ranked;
+    }
+
+    _isHealthy(endpoint: EndpointState): boolean {
+        return (
+            endpoint.downUntil <= Date.now() &&
+            endpoint.latencyMs <= this.options.maxLatencyMs &&
+            endpoint.errorRate <= this.options.maxErrorRate &&
+            endpoint.blockLag <= this.options.maxBlockLag
+        );
+    }
+
+    async _sendTo(
+        endpoint: EndpointState,
+        payload: JsonRpcPayload
+    ): Promise<JsonRpcResponse> {
+        const start = Date.now();
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            const response = await new Promise<JsonRpcResponse>(
+                (resolve, reject) => {
+                    timer = setTimeout(
+                        () =>
+                            reject(
+                                new RequestTimeoutError(
+                                    endpoint.name,
+                                    this.options.requestTimeoutMs
+                                )
+                            ),
+                        this.options.requestTimeoutMs
+                    );
+                    endpoint.provider.send(
+                        payload,
+                        (error: Error | null, result?: JsonRpcResponse) => {
+                            if (error != null || result == null) {
+                                reject(
+                                    error ??
+                                        new Error('Empty JSON-RPC response')
+                                );
+                            } else {
+                                resolve(result);
+                            }
+                        }
+                    );
+                }
+            );
+            this._record(endpoint, Date.now() - start, false);
+            return response;
+        } catch (e) {
+            this._record(endpoint, Date.now() - start, true);
+            endpoint.lastError = (e as Error).message;
+            endpoint.downUntil = Date.now() + this.options.retryAfterMs;
+            throw e;
+        } finally {
+            if (timer != null) {
+                clearTimeout(timer);
+            }
+        }
+    }
+
+    _record(endpoint: EndpointState, latencyMs: number, failed: boolean): void {
+        const { smoothing } = this.options;
+        endpoint.latencyMs =
+            endpoint.latencyMs * (1 - smoothing) + latencyMs * smoothing;
+        endpoint.errorRate =
+            endpoint.errorRate * (1 - smoothing) + (failed ? smoothing : 0);
+    }
+}
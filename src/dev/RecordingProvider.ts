@@ -0,0 +1,85 @@
+import fs from 'fs';
+import { HttpProvider } from 'web3-core';
+import { JsonRpcPayload, JsonRpcResponse } from 'web3-core-helpers';
+
+import { SendCallback } from './SendCallback';
+import { WrapperProviderBase } from './WrapperProviderBase';
+
+/**
+ * A request and its response, or the transport error it failed with
+ */
+export interface RecordedExchange {
+    request: JsonRpcPayload;
+    response?: JsonRpcResponse;
+    error?: string;
+}
+
+/**
+ * The content of a fixture file, see {@link RecordingProvider.save}
+ */
+export interface Recording {
+    exchanges: RecordedExchange[];
+}
+
+/**
+ * Records the requests sent through it and their responses, to be served back
+ * by a {@link ReplayProvider}. The requests of a batch are recorded one by one.
+ */
+export class RecordingProvider extends WrapperProviderBase {
+    private readonly exchanges: RecordedExchange[] = [];
+
+    constructor(provider: HttpProvider) {
+        super(provider);
+    }
+
+    getRecording(): Recording {
+        return { exchanges: [...this.exchanges] };
+    }
+
+    /**
+     * Writes the recording to a JSON fixture file
+     */
+    save(path: string): void {
+        fs.writeFileSync(path, JSON.stringify(this.getRecording(), null, 2));
+    }
+
+    send(payload: JsonRpcPayload, callback: SendCallback): void {
+        this.provider.send(
+            payload,
+            (error: Error | null, result?: JsonRpcResponse) => {
+                this._record(payload, error, result);
+                callback(error, result);
+            }
+        );
+    }
+
+    _record(
+        payload: JsonRpcPayload,
+        error: Error | null,
+        result?: JsonRpcResponse
+    ): void {
+        const requests: JsonRpcPayload[] = Array.isArray(payload)
+            ? payload
+            : [payload];
+        const responses: JsonRpcResponse[] = Array.isArray(result)
+            ? result
+            : result != null
+            ? [result]
+            : [];
+        requests.forEach((request) => {
+            const response = Array.isArray(payload)
+                ? responses.find((item) => item.id === request.id)
+                : responses[0];
+            this.exchanges.push(
+                error != null || response == null
+                    ? {
+                          request,
+                          error:
+                              error?.message ??
+                              'No response to the request in the batch'
+                      }
+                    : { request, response }
+            );
+        });
+    }
+}
@@ -0,0 +1,208 @@
+import fs from 'fs';
+import { HttpProvider } from 'web3-core';
+import { JsonRpcPayload, JsonRpcResponse } from 'web3-core-helpers';
+
+import { RecordedExchange, Recording } from './RecordingProvider';
+import { SendCallback } from './SendCallback';
+import { WrapperProviderBase } from './WrapperProviderBase';
+
+/**
+ * How a request is matched with the recorded ones:
+ * - exact: same method, params and id
+ * - ignoreId: same method and params
+ * - normalized: same method and params once normalized, see {@link normalizeParams}
+ */
+export type RequestMatching = 'exact' | 'ignoreId' | 'normalized';
+
+export interface ReplayProviderOptions {
+    matching: RequestMatching;
+    normalizeParams: (params: unknown) => unknown;
+}
+
+/**
+ * Lowercases the hex strings, drops the null and undefined fields and sorts the
+ * keys of the objects, so that e.g. checksummed and lowercase addresses match
+ */
+export function normalizeParams(params: unknown): unknown {
+    if (Array.isArray(params)) {
+        return params.map(normalizeParams);
+    }
+    if (typeof params === 'string') {
+        return /^0x[0-9a-f]*$/i.test(params) ? params.toLowerCase() : params;
+    }
+    if (params != null && typeof params === 'object') {
+        return Object.keys(params)
+            .sort()
+            .filter((key) => (params as any)[key] != null)
+            .reduce<{ [key: string]: unknown }>((normalized, key) => {
+                normalized[key] = normalizeParams((params as any)[key]);
+                return normalized;
+            }, {});
+    }
+    return params;
+}
+
+const defaultReplayOptions: ReplayProviderOptions = {
+    matching: 'ignoreId',
+    normalizeParams
+};
+
+export class UnmatchedRequestsError extends Error {
+    constructor(readonly requests: JsonRpcPayload[]) {
+        super(
+            `No recorded response for ${requests.length} request(s):\n${requests
+                .map(
+                    (request) =>
+                        `  - ${request.method} ${JSON.stringify(
+                            request.params
+                        )}`
+                )
+                .join('\n')}`
+        );
+        this.name = 'UnmatchedRequestsError';
+    }
+}
+
+/**
+ * Reads a fixture file written by {@link RecordingProvider.save}
+ */
+export function loadRecording(path: string): Recording {
+    return JSON.parse(fs.readFileSync(path, 'utf8'));
+}
+
+/**
+ * Stands in for the provider when no requests may reach a node
+ */
+const offlineProvider = {
+    host: 'replay',
+    connected: true,
+    send(payload: JsonRpcPayload, callback: SendCallback): void {
+        callback(
+            new UnmatchedRequestsError(
+                Array.isArray(payload) ? payload : [payload]
+            )
+        );
+    },
+    disconnect: () => true,
+    supportsSubscriptions: () => false
+} as unknown as HttpProvider;
+
+/**
+ * Serves the responses of a {@link Recording}. The recorded exchanges matching a
+ * request are served in order, the last one again once all were served.
+ *
+ * The requests without a match fail, or are sent to the provider if one is
+ * given; either way they are reported by {@link getUnmatched}.
+ */
+export class ReplayProvider extends WrapperProviderBase {
+    private readonly options: ReplayProviderOptions;
+    private readonly exchanges: RecordedExchange[];
+    private readonly served = new Set<RecordedExchange>();
+    private readonly unmatched: JsonRpcPayload[] = [];
+
+    constructor(
+        recording: Recording,
+        options: Partial<ReplayProviderOptions> = {},
+        provider: HttpProvider = offlineProvider
+    ) {
+        super(provider);
+        this.exchanges = recording.exchanges;
+        this.options = { ...defaultReplayOptions, ...options };
+    }
+
+    getUnmatched(): JsonRpcPayload[] {
+        return [...this.unmatched];
+    }
+
+    /**
+     * @returns the recorded exchanges no request matched
+     */
+    getUnused(): RecordedExchange[] {
+        return this.exchanges.filter((exchange) => !this.served.has(exchange));
+    }
+
+    /**
+     * @throws UnmatchedRequestsError if some requests had no recorded response
+     */
+    assertAllMatched(): void {
+        if (this.unmatched.length > 0) {
+            throw new UnmatchedRequestsError(this.unmatched);
+        }
+    }
+
+    send(payload: JsonRpcPayload, callback: SendCallback): void {
+        const requests: JsonRpcPayload[] = Array.isArray(payload)
+            ? payload
+            : [payload];
+        // the exchanges are only served once the whole payload is answered from the recording
+        const taken = new Set<RecordedExchange>();
+        const exchanges = requests.map((request) => {
+            const exchange = this._match(request, taken);
+            if (exchange != null) {
+                taken.add(exchange);
+            }
+            return exchange;
+        });
+        const unmatched = requests.filter(
+            (_, index) => exchanges[index] == null
+        );
+        if (unmatched.length > 0) {
+            this.unmatched.push(...unmatched);
+            this.provider.send(payload, callback);
+            return;
+        }
+        taken.forEach((exchange) => this.served.add(exchange));
+        const failed = exchanges.find((exchange) => exchange?.error != null);
+        if (failed != null) {
+            callback(new Error(failed.error));
+            return;
+        }
+        const responses = exchanges.map((exchange, index) => ({
+            ...(exchange?.response as JsonRpcResponse),
+            id: requests[index].id as number
+        }));
+        callback(
+            null,
+            Array.isArray(payload) ? (responses as any) : responses[0]
+        );
+    }
+
+    /**
+     * @param taken - the exchanges already matched by the other requests of the batch
+     * @returns the first recorded exchange of the request not served nor taken yet,
+     * else the last one
+     */
+    _match(
+        request: JsonRpcPayload,
+        taken: Set<RecordedExchange>
+    ): RecordedExchange | undefined {
+        const key = this._key(request);
+        const candidates = this.exchanges.filter(
+            (exchange) => this._key(exchange.request) === key
+        );
+        if (candidates.length === 0) {
+            return undefined;
+        }
+        return (
+            candidates.find(
+                (candidate) =>
+                    !this.served.has(candidate) && !taken.has(candidate)
+            ) ?? candidates[candidates.length - 1]
+        );
+    }
+
+    _key(request: JsonRpcPayload): string {
+        const params = request.params ?? [];
+        switch (this.options.matching) {
+            case 'exact':
+                return JSON.stringify([request.method, params, request.id]);
+            case 'ignoreId':
+                return JSON.stringify([request.method, params]);
+            case 'normalized':
+                return JSON.stringify([
+                    request.method,
+                    this.options.normalizeParams(params)
+                ]);
+        }
+    }
+}
@@ -0,0 +1,252 @@
+import log from 'loglevel';
+import { HttpProvider } from 'web3-core';
+import { JsonRpcPayload, JsonRpcResponse } from 'web3-core-helpers';
+
+import { sleep } from '../Utils';
+import { SendCallback } from './SendCallback';
+import { WrapperProviderBase } from './WrapperProviderBase';
+
+export interface RetryPolicy {
+    /**
+     * Attempts after the first one
+     */
+    retries: number;
+    initialBackoffMs: number;
+    maxBackoffMs: number;
+    /**
+     * Share (0-1) of each backoff that is randomized
+     */
+    jitter: number;
+    /**
+     * Whether repeating the call is harmless; the calls that are not are never retried
+     */
+    idempotent: boolean;
+}
+
+export interface RetryingProviderOptions {
+    defaultPolicy: RetryPolicy;
+    methodPolicies: { [method: string]: Partial<RetryPolicy> };
+    /**
+     * Total time of a request, retries included; it fails with a timeout once elapsed
+     */
+    budgetMs: number;
+    /**
+     * Minimum backoff after a rate-limit response
+     */
+    rateLimitBackoffMs: number;
+    random: () => number;
+}
+
+const nonIdempotentPolicy: Partial<RetryPolicy> = { idempotent: false };
+
+const defaultRetryOptions: RetryingProviderOptions = {
+    defaultPolicy: {
+        retries: 3,
+        initialBackoffMs: 200,
+        maxBackoffMs: 5000,
+        jitter: 0.5,
+        idempotent: true
+    },
+    methodPolicies: {
+        eth_sendRawTransaction: nonIdempotentPolicy,
+        eth_sendTransaction: nonIdempotentPolicy,
+        personal_sendTransaction: nonIdempotentPolicy
+    },
+    budgetMs: 30000,
+    rateLimitBackoffMs: 1000,
+    random: Math.random
+};
+
+export type RpcFailureKind = 'rateLimit' | 'timeout' | 'connection';
+
+const rateLimitPattern =
+    /rate.?limit|too many requests|\b429\b|limit exceeded/i;
+const timeoutPattern = /time.?out|timed out|ETIMEDOUT|ESOCKETTIMEDOUT/i;
+
+/**
+ * @returns the kind of transient failure of a request, or undefined if it succeeded
+ * or failed for good (e.g. a revert, or an invalid nonce). A batch fails with the first
+ * transient failure of its items, a rate limit first.
+ */
+export function classifyRpcFailure(
+    error: Error | null,
+    response?: JsonRpcResponse | JsonRpcResponse[]
+): RpcFailureKind | undefined {
+    if (error != null) {
+        if (rateLimitPattern.test(error.message)) {
+            return 'rateLimit';
+        }
+        return timeoutPattern.test(error.message) ? 'timeout' : 'connection';
+    }
+    if (Array.isArray(response)) {
+        const kinds = response.map((item) => classifyRpcFailure(null, item));
+        return kinds.includes('rateLimit')
+            ? 'rateLimit'
+            : kinds.find((kind) => kind != null);
+    }
+    const rpcError: any = response?.error;
+    if (rpcError == null) {
+        return undefined;
+    }
+    const message: string = rpcError.message ?? String(rpcError);
+    if (
+        rpcError.code === 429 ||
+        rpcError.code === -32005 ||
+        rateLimitPattern.test(message)
+    ) {
+        return 'rateLimit';
+    }
+    return timeoutPattern.test(message) ? 'timeout' : undefined;
+}
+
+interface Attempt {
+    error: Error | null;
+    response?: JsonRpcResponse;
+}
+
+/**
+ * Retries the requests that fail with connection errors, timeouts or rate limits,
+ * with a jittered exponential backoff, until the policy of the method or the time
+ * budget of the request is exhausted.
+ *
+ * Non-idempotent methods such as `eth_sendRawTransaction` are sent once, unless
+ * sent with {@link sendIdempotent} or given an idempotent policy.
+ */
+export class RetryingProvider extends WrapperProviderBase {
+    private readonly options: RetryingProviderOptions;
+    retriesCount = 0;
+
+    constructor(
+        provider: HttpProvider,
+        options: Partial<RetryingProviderOptions> = {}
+    ) {
+        super(provider);
+        this.options = {
+            ...defaultRetryOptions,
+            ...options,
+            methodPolicies: {
+                ...defaultRetryOptions.methodPolicies,
+                ...options.methodPolicies
+            }
+        };
+    }
+
+    getPolicy(method: string): RetryPolicy {
+        return {
+            ...this.options.defaultPolicy,
+            ...this.options.methodPolicies[method]
+        };
+    }
+
+    send(payload: JsonRpcPayload, callback: SendCallback): void {
+        this._send(payload, false).then(
+            ({ error, response }) => callback(error, response),
+            (error) => callback(error)
+        );
+    }
+
+    /**
+     * Retries the request even if its method is not idempotent, e.g. an
+     * `eth_sendRawTransaction` whose duplicates the node will reject as known
+     */
+    sendIdempotent(payload: JsonRpcPayload, callback: SendCallback): void {
+        this._send(payload, true).then(
+            ({ error, response }) => callback(error, response),
+            (error) => callback(error)
+        );
+    }
+
+    _backoff(policy: RetryPolicy, retry: number, kind: RpcFailureKind): number {
+        const exponential = Math.min(
+            policy.maxBackoffMs,
+            policy.initialBackoffMs * 2 ** retry
+        );
+        const jittered =
+            exponential * (1 - policy.jitter) +
+            exponential * policy.jitter * this.options.random();
+        return kind === 'rateLimit'
+            ? Math.max(jittered, this.options.rateLimitBackoffMs)
+            : jittered;
+    }
+
+    async _send(
+        payload: JsonRpcPayload,
+        idempotent: boolean
+    ): Promise<Attempt> {
+        // a batch is retried as a whole, so only if all its methods can be
+        const methods = Array.isArray(payload)
+            ? payload.map((item: JsonRpcPayload) => item.method)
+            : [payload.method];
+        const policy = this.getPolicy(methods[0]);
+        const retries =
+            idempotent ||
+            methods.every((method) => this.getPolicy(method).idempotent)
+                ? policy.retries
+                : 0;
+        const name = methods.join(', ');
+        const deadline = Date.now() + this.options.budgetMs;
+        for (let retry = 0; ; retry++) {
+            const attempt = await this._attempt(payload, name, deadline);
+            const kind = classifyRpcFailure(attempt.error, attempt.response);
+            if (kind == null || retry >= retries) {
+                return attempt;
+            }
+            const backoff = this._backoff(policy, retry, kind);
+            if (Date.now() + backoff >= deadline) {
+                log.debug(
+                    `RetryingProvider - ${name} out of time budget after ${
+                        retry + 1
+                    } attempts`
+                );
+                return attempt;
+            }
+            log.debug(
+                `RetryingProvider - ${name} failed (${kind}), retrying in ${Math.round(
+                    backoff
+                )}ms`
+            );
+            this.retriesCount++;
+            await sleep(backoff);
+        }
+    }
+
+    /**
+     * Sends the request once; it times out when the deadline is reached
+     */
+    async _attempt(
+        payload: JsonRpcPayload,
+        name: string,
+        deadline: number
+    ): Promise<Attempt> {
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<Attempt>((resolve) => {
+            timer = setTimeout(
+                () =>
+                    resolve({
+                        error: new Error(
+                            `${name} timed out: time budget of ${this.options.budgetMs}ms exceeded`
+                        )
+                    }),
+                Math.max(0, deadline - Date.now())
+            );
+        });
+        const request = new Promise<Attempt>((resolve) => {
+            try {
+                this.provider.send(
+                    payload,
+                    (error: Error | null, response?: JsonRpcResponse) =>
+                        resolve({ error, response })
+                );
+            } catch (e) {
+                resolve({ error: e as Error });
+            }
+        });
+        try {
+            return await Promise.race([request, timeout]);
+        } finally {
+            if (timer != null) {
+                clearTimeout(timer);
+            }
+        }
+    }
+}
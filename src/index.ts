@@ -6,17 +6,39 @@ import TokenResponse from './TokenResponse';
 import VerifierResponse from './VerifierResponse';
 import VersionsManager from './VersionsManager';
 
+export * from './dev/BatchingProvider';
+export * from './dev/CachingProvider';
+export * from './dev/FailoverProvider';
 export * from './dev/NetworkSimulatingProvider';
 export * from './dev/ProfilingProvider';
+export * from './dev/RecordingProvider';
+export * from './dev/ReplayProvider';
+export * from './dev/RetryingProvider';
 export * from './dev/SendCallback';
 export * from './dev/WrapperProviderBase';
 export * from './types/EnvelopingConfig';
 export * from './types/RelayTransactionRequest';
 export * from './types/token.type';
 export * from './AmountRequired';
+export * from './CalldataCost';
+export * from './Configurator';
 export * from './Constants';
 export * from './ContractInteractor';
+export * from './Eip712Utils';
 export * from './Environments';
+export * from './ErrorDecoder';
+export * from './ForwarderVerification';
+export * from './GasModel';
+export * from './GasPriceOracle';
+export * from './LogScanner';
+export * from './NonceManager';
+export * from './RelayHubCalldata';
+export * from './RelayHubEvents';
+export * from './RelayRegistry';
+export * from './RelaySelection';
+export * from './RequestValidator';
+export * from './Signer';
+export * from './TransactionTracker';
 export * from './Utils';
 export * from './VersionRegistry';
 
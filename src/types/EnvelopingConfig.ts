@@ -3,6 +3,10 @@ import { LogLevelNumbers } from 'loglevel';
 /**
  * @field methodSuffix - allows use of versioned methods, i.e. 'eth_signTypedData_v4'. Should be '_v4' for Metamask
  * @field jsonStringifyRequest - should be 'true' for Metamask, false for ganache
+ * @field networkId - the networkId to sign transactions for, the node's by default
+ * @field baseChain - the ethereumjs-common chain the signing parameters are based on
+ * @field hardfork - the hardfork to sign transactions with, the environment's by default
+ * @field eip155 - whether to sign with EIP-155 replay protection, the environment's by default
  */
 export interface EnvelopingConfig {
     preferredRelays: string[];
@@ -23,6 +27,10 @@ export interface EnvelopingConfig {
     forwarderAddress: string;
     smartWalletFactoryAddress: string;
     chainId: number;
+    networkId?: number;
+    baseChain?: string;
+    hardfork?: string;
+    eip155?: boolean;
     clientId: string;
     requestValidSeconds: number;
 }
@@ -0,0 +1,111 @@
+import { expect } from 'chai';
+import { HttpProvider } from 'web3-core';
+import { BatchingProvider } from '../src';
+import { request, StandInProvider } from './StandInProvider';
+
+describe('BatchingProvider', () => {
+    let node: StandInProvider;
+    let provider: BatchingProvider;
+
+    beforeEach(() => {
+        // answers each request with its method and params
+        node = new StandInProvider(({ method, params }) => ({
+            result: `${method}(${params.join(',')})`
+        }));
+        provider = new BatchingProvider(node as unknown as HttpProvider, {
+            maxBatchSize: 3
+        });
+    });
+
+    it('should send concurrent requests as batches', async () => {
+        const responses = await Promise.all([
+            request(provider, 'eth_call', ['0x1', 'latest'], 11),
+            request(provider, 'eth_call', ['0x2', 'latest'], 12),
+            request(provider, 'eth_sendRawTransaction', ['0x3'], 13),
+            request(provider, 'eth_getBalance', ['0x4', 'latest'], 14)
+        ]);
+        expect(
+            responses.map(({ id, result }) => [id, result])
+        ).to.be.deep.equal([
+            [11, 'eth_call(0x1,latest)'],
+            [12, 'eth_call(0x2,latest)'],
+            [13, 'eth_sendRawTransaction(0x3)'],
+            [14, 'eth_getBalance(0x4,latest)']
+        ]);
+        // the maximum batch size splits the requests
+        expect(node.sent).to.have.lengthOf(2);
+        expect(node.sent[0]).to.have.lengthOf(3);
+        expect(Array.isArray(node.sent[1])).to.be.false;
+    });
+
+    it('should send identical reads in flight once', async () => {
+        const responses = await Promise.all([
+            request(provider, 'eth_call', ['0x1', 'latest'], 1),
+            request(provider, 'eth_call', ['0x1', 'latest'], 2),
+            request(provider, 'eth_call', ['0x1', '0x10'], 3)
+        ]);
+        expect(responses.map(({ id }) => id)).to.be.deep.equal([1, 2, 3]);
+        expect(responses[0].result).to.be.equal(responses[1].result);
+        expect(node.sent).to.have.lengthOf(1);
+        expect(node.sent[0]).to.have.lengthOf(2);
+        // once answered, the request is sent again
+        await request(provider, 'eth_call', ['0x1', 'latest'], 4);
+        expect(node.sent).to.have.lengthOf(2);
+    });
+
+    it('should not merge requests with side effects', async () => {
+        await Promise.all([
+            request(provider, 'eth_sendRawTransaction', ['0x1'], 1),
+            request(provider, 'eth_sendRawTransaction', ['0x1'], 2)
+        ]);
+        expect(node.sent[0]).to.have.lengthOf(2);
+    });
+
+    it('should fall back to single requests without batch support', async () => {
+        node.supportsBatches = false;
+        const responses = await Promise.all([
+            request(provider, 'eth_call', ['0x1', 'latest'], 1),
+            request(provider, 'eth_call', ['0x2', 'latest'], 2)
+        ]);
+        expect(responses.map(({ result }) => result)).to.be.deep.equal([
+            'eth_call(0x1,latest)',
+            'eth_call(0x2,latest)'
+        ]);
+        expect(provider.batchingSupported).to.be.false;
+        node.sent = [];
+        await Promise.all([
+            request(provider, 'eth_call', ['0x1', 'latest'], 1),
+            request(provider, 'eth_call', ['0x2', 'latest'], 2)
+        ]);
+        expect(node.sent.every((payload) => !Array.isArray(payload))).to.be
+            .true;
+    });
+
+    it('should split the batches rejected for another reason', async () => {
+        node.maxBatchSize = 2;
+        const responses = await Promise.all([
+            request(provider, 'eth_call', ['0x1', 'latest'], 1),
+            request(provider, 'eth_call', ['0x2', 'latest'], 2),
+            request(provider, 'eth_call', ['0x3', 'latest'], 3)
+        ]);
+        expect(responses.map(({ result }) => result)).to.be.deep.equal([
+            'eth_call(0x1,latest)',
+            'eth_call(0x2,latest)',
+            'eth_call(0x3,latest)'
+        ]);
+        expect(provider.batchingSupported).to.be.true;
+        expect(
+            node.sent.map((payload) => [payload].flat().length)
+        ).to.be.deep.equal([3, 1, 2]);
+    });
+
+    it('should resend the requests left out of a batch', async () => {
+        node.batchLimit = 1;
+        const responses = await Promise.all([
+            request(provider, 'eth_call', ['0x1', 'latest'], 1),
+            request(provider, 'eth_call', ['0x2', 'latest'], 2)
+        ]);
+        expect(responses[1].result).to.be.equal('eth_call(0x2,latest)');
+        expect(node.sent).to.have.lengthOf(2);
+    });
+});
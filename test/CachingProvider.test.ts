@@ -0,0 +1,181 @@
+import { expect } from 'chai';
+import { HttpProvider } from 'web3-core';
+import { keccak256 } from 'web3-utils';
+import {
+    CachingProvider,
+    ContractInteractor,
+    defaultEnvelopingConfig
+} from '../src';
+import { request, StandInProvider } from './StandInProvider';
+
+const token = '0x1111111111111111111111111111111111111111';
+const wallet = '0x2222222222222222222222222222222222222222';
+
+/**
+ * A node stand-in whose answers change with the block number
+ */
+function standIn(): StandInProvider & {
+    blockNumber: number;
+    codes: { [address: string]: string };
+} {
+    const node = Object.assign(new StandInProvider(), {
+        blockNumber: 10,
+        codes: { [token]: '0x6080' } as { [address: string]: string }
+    });
+    node.answer = ({ method, params }) => {
+        switch (method) {
+            case 'eth_blockNumber':
+                return { result: '0x' + node.blockNumber.toString(16) };
+            case 'eth_getCode':
+                return { result: node.codes[params[0]] ?? '0x' };
+            case 'eth_call':
+                if (params[0].to === wallet) {
+                    return {
+                        error: { code: -32000, message: 'execution reverted' }
+                    };
+                }
+                return {
+                    result: `${params[0].data as string}@${node.blockNumber}`
+                };
+            default:
+                return { result: node.blockNumber };
+        }
+    };
+    return node;
+}
+
+const balanceOf = '0x70a08231';
+const decimals = keccak256('decimals()').slice(0, 10);
+
+describe('CachingProvider', () => {
+    let node: ReturnType<typeof standIn>;
+    let provider: CachingProvider;
+
+    beforeEach(() => {
+        node = standIn();
+        provider = new CachingProvider(node as unknown as HttpProvider, {
+            blockPollMs: 0
+        });
+    });
+
+    function calls(method: string): number {
+        return node.calls.filter((call) => call === method).length;
+    }
+
+    it('should answer the reads of the same block from the cache', async () => {
+        const call = [{ to: token, data: balanceOf }, 'latest'];
+        const first = await request(provider, 'eth_call', call);
+        const second = await request(provider, 'eth_call', call);
+        expect(second).to.be.deep.equal(first);
+        expect(calls('eth_call')).to.be.equal(1);
+        expect(provider.getStats()).to.be.deep.equal({
+            hits: 1,
+            misses: 1,
+            entries: 1
+        });
+    });
+
+    it('should invalidate the latest reads on new blocks', async () => {
+        const call = [{ to: token, data: balanceOf }, 'latest'];
+        await request(provider, 'eth_call', call);
+        node.blockNumber = 11;
+        expect((await request(provider, 'eth_call', call)).result).to.be.equal(
+            `${balanceOf}@11`
+        );
+        expect(calls('eth_call')).to.be.equal(2);
+        expect(provider.getStats().entries).to.be.equal(1);
+    });
+
+    it('should keep the reads of past blocks', async () => {
+        const call = [{ to: token, data: balanceOf }, '0xa'];
+        await request(provider, 'eth_call', call);
+        node.blockNumber = 11;
+        expect((await request(provider, 'eth_call', call)).result).to.be.equal(
+            `${balanceOf}@10`
+        );
+        expect(calls('eth_call')).to.be.equal(1);
+    });
+
+    it('should key the reads of EIP-1898 blocks by block', async () => {
+        for (const blockHash of ['0xaa', '0xbb', '0xaa']) {
+            await request(provider, 'eth_call', [
+                { to: token, data: balanceOf },
+                { blockHash }
+            ]);
+        }
+        expect(calls('eth_call')).to.be.equal(2);
+    });
+
+    it('should never cache pending reads', async () => {
+        await request(provider, 'eth_getTransactionCount', [token, 'pending']);
+        await request(provider, 'eth_getTransactionCount', [token, 'pending']);
+        expect(calls('eth_getTransactionCount')).to.be.equal(2);
+        expect(provider.getStats()).to.deep.include({ hits: 0, entries: 0 });
+    });
+
+    it('should keep the immutable data across blocks', async () => {
+        await request(provider, 'eth_getCode', [token, 'latest']);
+        await request(provider, 'eth_call', [
+            { to: token, data: decimals },
+            'latest'
+        ]);
+        node.blockNumber = 11;
+        await request(provider, 'eth_getCode', [token, 'latest']);
+        await request(provider, 'eth_call', [
+            { to: token, data: decimals },
+            'latest'
+        ]);
+        expect(calls('eth_getCode')).to.be.equal(1);
+        expect(calls('eth_call')).to.be.equal(1);
+    });
+
+    it('should notice contracts deployed later', async () => {
+        await request(provider, 'eth_getCode', [wallet, 'latest']);
+        node.blockNumber = 11;
+        node.codes[wallet] = '0x6080';
+        expect(
+            (await request(provider, 'eth_getCode', [wallet, 'latest'])).result
+        ).to.be.equal('0x6080');
+    });
+
+    it('should not cache errors', async () => {
+        const call = [{ to: wallet, data: balanceOf }, 'latest'];
+        await request(provider, 'eth_call', call);
+        await request(provider, 'eth_call', call);
+        expect(calls('eth_call')).to.be.equal(2);
+    });
+
+    it('should apply the method TTLs and the LRU bound', async () => {
+        const bounded = new CachingProvider(node as unknown as HttpProvider, {
+            maxEntries: 2,
+            ttlMs: { eth_getBalance: 0 }
+        });
+        await request(bounded, 'eth_getBalance', [token, 'latest']);
+        await request(bounded, 'eth_getBalance', [token, 'latest']);
+        expect(calls('eth_getBalance')).to.be.equal(2);
+
+        for (const data of ['0x01', '0x02', '0x01', '0x03', '0x01']) {
+            await request(bounded, 'eth_call', [{ to: token, data }, 'latest']);
+        }
+        // 0x01 stays as the most recently used, 0x02 is evicted by 0x03
+        expect(calls('eth_call')).to.be.equal(3);
+        await request(bounded, 'eth_call', [
+            { to: token, data: '0x02' },
+            'latest'
+        ]);
+        expect(calls('eth_call')).to.be.equal(4);
+    });
+
+    it('should be enabled through the ContractInteractor options', async () => {
+        const interactor = new ContractInteractor(
+            node as unknown as HttpProvider,
+            defaultEnvelopingConfig,
+            { readCache: { blockPollMs: 0 } }
+        );
+        expect(interactor.getProvider()).to.be.equal(interactor.readCache);
+        await interactor.getCode(token);
+        await interactor.getCode(token);
+        expect(calls('eth_getCode')).to.be.equal(1);
+        expect(interactor.readCache?.getStats().hits).to.be.equal(1);
+    });
+});
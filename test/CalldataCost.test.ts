@@ -0,0 +1,78 @@
+import { expect } from 'chai';
+import Web3 from 'web3';
+import { IRelayHub, RelayRequest } from '@rsksmart/rif-relay-contracts';
+import {
+    abiHubCallEncoder,
+    calldataGasCost,
+    eip2028CalldataPricing,
+    intrinsicGasCost,
+    RelayTransactionRequest,
+    rskCalldataPricing,
+    transactionParamDataCost
+} from '../src';
+
+const relayRequest: RelayRequest = {
+    request: {
+        relayHub: '0x3333333333333333333333333333333333333333',
+        from: '0x4444444444444444444444444444444444444444',
+        to: '0x5555555555555555555555555555555555555555',
+        tokenContract: '0x2222222222222222222222222222222222222222',
+        value: '0',
+        gas: '40000',
+        nonce: '0',
+        tokenAmount: '1',
+        tokenGas: '30000',
+        validUntilTime: '0',
+        data: '0xa9059cbb'
+    },
+    relayData: {
+        gasPrice: '10',
+        feesReceiver: '0x6666666666666666666666666666666666666666',
+        callForwarder: '0x7777777777777777777777777777777777777777',
+        callVerifier: '0x8888888888888888888888888888888888888888'
+    }
+};
+const signature = '0x' + 'ab'.repeat(65);
+
+describe('CalldataCost', () => {
+    it('should price zero and non-zero bytes per environment', () => {
+        expect(calldataGasCost('0x0001ff00', rskCalldataPricing)).to.be.equal(
+            2 * 4 + 2 * 68
+        );
+        expect(
+            calldataGasCost('0x0001ff00', eip2028CalldataPricing)
+        ).to.be.equal(2 * 4 + 2 * 16);
+    });
+
+    it('should add the base cost of calls and creations', () => {
+        expect(intrinsicGasCost('0x')).to.be.equal(21000);
+        expect(intrinsicGasCost('0x01', true)).to.be.equal(53000 + 68);
+    });
+
+    it('should encode hub calls as the contract does', () => {
+        const relayHub = new new Web3().eth.Contract(IRelayHub.abi);
+        expect(
+            abiHubCallEncoder.encodeRelayCall(relayRequest, signature)
+        ).to.be.equal(
+            relayHub.methods.relayCall(relayRequest, signature).encodeABI()
+        );
+    });
+
+    it('should compute the transaction cost without a global web3', () => {
+        const request: RelayTransactionRequest = {
+            relayRequest,
+            metadata: {
+                relayHubAddress: relayRequest.request.relayHub,
+                relayMaxNonce: 1,
+                signature
+            }
+        };
+        const data = abiHubCallEncoder.encodeRelayCall(relayRequest, signature);
+        expect(transactionParamDataCost(request)).to.be.equal(
+            21000 + calldataGasCost(data)
+        );
+        expect(
+            transactionParamDataCost(request, eip2028CalldataPricing)
+        ).to.be.lessThan(transactionParamDataCost(request));
+    });
+});
@@ -0,0 +1,135 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    ConfigValidationError,
+    constants,
+    defaultEnvelopingConfig,
+    getConfigEnvName,
+    getConfigErrors,
+    getConfigFromEnv,
+    loadConfig,
+    resolveConfig
+} from '../src';
+
+const regtestHub = '0xE0825f57Dd05Ef62FF731c27222A86E104CC4Cad';
+const testnetHub = '0x66Fa9FEAfB8Db66Fe2160ca7aEAc7FC24e254387';
+
+describe('Configurator', () => {
+    describe('resolveConfig', () => {
+        it('should fill the defaults and the known deployments', () => {
+            const config = resolveConfig({ preferredRelays: ['http://relay'] });
+            expect(config.preferredRelays).to.be.deep.equal(['http://relay']);
+            expect(config.relayLookupWindowBlocks).to.be.equal(
+                defaultEnvelopingConfig.relayLookupWindowBlocks
+            );
+            expect(config.relayHubAddress).to.be.equal(regtestHub);
+        });
+
+        it('should use the deployments of the given chain', () => {
+            expect(resolveConfig({ chainId: 31 }).relayHubAddress).to.be.equal(
+                testnetHub
+            );
+        });
+
+        it('should aggregate every error', () => {
+            try {
+                resolveConfig({
+                    relayHubAddress: regtestHub
+                        .toLowerCase()
+                        .replace('e0', 'E0'),
+                    relayLookupWindowBlocks: 0,
+                    logLevel: 7 as any
+                });
+                expect.fail('should have thrown');
+            } catch (e) {
+                expect(e).to.be.instanceOf(ConfigValidationError);
+                const { errors } = e as ConfigValidationError;
+                expect(errors).to.have.length(3);
+                expect(errors[0]).to.include('relayLookupWindowBlocks');
+                expect(errors[1]).to.include('logLevel');
+                expect(errors[2]).to.include('not a checksummed address');
+            }
+        });
+
+        it('should reject a missing RelayHub unless allowed', () => {
+            const partial = { chainId: 30 };
+            expect(() => resolveConfig(partial)).to.throw(
+                'chainId 30 has no known RelayHub deployment'
+            );
+            expect(
+                resolveConfig(partial, { allowMissingContracts: true })
+                    .relayHubAddress
+            ).to.be.equal(constants.ZERO_ADDRESS);
+        });
+    });
+
+    it('should detect a RelayHub of another chain', () => {
+        expect(
+            getConfigErrors({
+                ...defaultEnvelopingConfig,
+                relayHubAddress: testnetHub
+            })
+        ).to.be.deep.equal([
+            `relayHubAddress ${testnetHub} is the RelayHub of rskTestnet (chainId 31), but chainId is 33`
+        ]);
+    });
+
+    describe('environment variables', () => {
+        it('should name the variables after the fields', () => {
+            expect(getConfigEnvName('relayHubAddress')).to.be.equal(
+                'RIF_RELAY_RELAY_HUB_ADDRESS'
+            );
+        });
+
+        it('should parse the variables by field type', () => {
+            expect(
+                getConfigFromEnv({
+                    RIF_RELAY_CHAIN_ID: '31',
+                    RIF_RELAY_ONLY_PREFERRED_RELAYS: 'true',
+                    RIF_RELAY_PREFERRED_RELAYS: 'http://a, http://b',
+                    OTHER: 'ignored'
+                })
+            ).to.be.deep.equal({
+                chainId: 31,
+                onlyPreferredRelays: true,
+                preferredRelays: ['http://a', 'http://b']
+            });
+            expect(() =>
+                getConfigFromEnv({ RIF_RELAY_CHAIN_ID: 'rsk' })
+            ).to.throw(ConfigValidationError, 'must be a number');
+        });
+    });
+
+    describe('loadConfig', () => {
+        let configPath: string;
+
+        before(() => {
+            configPath = path.join(
+                fs.mkdtempSync(path.join(os.tmpdir(), 'config-')),
+                'config.json'
+            );
+            fs.writeFileSync(
+                configPath,
+                JSON.stringify({ chainId: 31, sliceSize: 5 })
+            );
+        });
+
+        it('should load the file and apply the overrides', () => {
+            const config = loadConfig(configPath, {
+                RIF_RELAY_SLICE_SIZE: '7'
+            });
+            expect(config.chainId).to.be.equal(31);
+            expect(config.sliceSize).to.be.equal(7);
+            expect(config.relayHubAddress).to.be.equal(testnetHub);
+        });
+
+        it('should report unreadable files', () => {
+            expect(() => loadConfig(configPath + '.missing', {})).to.throw(
+                ConfigValidationError,
+                'Cannot read config file'
+            );
+        });
+    });
+});
@@ -12,17 +12,26 @@ import {
     constants,
     ContractInteractor,
     EnvelopingConfig,
+    getRawTxOptions,
+    HealthCheckError,
+    RelayTransactionRequest,
+    validateRawTxOptions,
     Web3Provider
 } from '../src';
 import {
     ForwardRequest,
+    IRelayVerifier,
     RelayData,
     RelayRequest
 } from '@rsksmart/rif-relay-contracts';
+import web3Abi, { AbiCoder } from 'web3-eth-abi';
+import { keccak256 } from 'web3-utils';
 
 use(sinonChai);
 use(chaiAsPromised);
 
+const abi = web3Abi as unknown as AbiCoder;
+
 const GAS_PRICE_PERCENT = 0; //
 const MAX_RELAY_NONCE_GAP = 3;
 const DEFAULT_RELAY_TIMEOUT_GRACE_SEC = 1800;
@@ -80,6 +89,7 @@ describe('ContractInteractor', () => {
             } as RelayData
         };
         const fakeSignature = 'fake_signature';
+        const fakeAddress = '0x1111111111111111111111111111111111111111';
 
         beforeEach(function () {
             fakeIForwarderInstance = stubInterface<IForwarderInstance>();
@@ -144,6 +154,371 @@ describe('ContractInteractor', () => {
                 )
             ).to.be.rejectedWith(error.message);
         });
+
+        it('should read the domain separator with the forwarder state', async () => {
+            const domainSeparator = '0x' + '12'.repeat(32);
+            sinon.stub(contractInteractor, 'getSenderNonce').resolves('3');
+            sinon
+                .stub(contractInteractor.web3.eth, 'getStorageAt')
+                .resolves('0x' + '34'.repeat(32));
+            const call = sinon
+                .stub(contractInteractor.web3.eth, 'call')
+                .resolves(domainSeparator);
+            expect(
+                await contractInteractor.getForwarderState(fakeAddress)
+            ).to.be.deep.equal({
+                nonce: '3',
+                ownerHash: '0x' + '34'.repeat(32),
+                domainSeparator
+            });
+            expect(call).to.have.been.calledWith({
+                to: fakeAddress,
+                data: abi.encodeFunctionSignature('domainSeparator()')
+            });
+        });
+
+        it('should skip the domain separator of wallets without one', async () => {
+            sinon.stub(contractInteractor, 'getSenderNonce').resolves('3');
+            sinon
+                .stub(contractInteractor.web3.eth, 'getStorageAt')
+                .resolves('0x' + '34'.repeat(32));
+            sinon
+                .stub(contractInteractor.web3.eth, 'call')
+                .rejects(new Error('execution reverted'));
+            expect(
+                (await contractInteractor.getForwarderState(fakeAddress))
+                    .domainSeparator
+            ).to.be.undefined;
+        });
+    });
+
+    describe('validateAcceptRelayCall', () => {
+        const relayWorker = '0x1111111111111111111111111111111111111111';
+        const relayRequest = {
+            request: {},
+            relayData: { gasPrice: '60000000' }
+        } as RelayRequest;
+        let verifierCall: sinon.SinonStub;
+        let relayCall: sinon.SinonStub;
+
+        beforeEach(function () {
+            sinon
+                .stub(contractInteractor, 'getMaxViewableRelayGasLimit')
+                .resolves(100000);
+            verifierCall = sinon.stub().resolves();
+            relayCall = sinon.stub().resolves(true);
+            // @ts-ignore
+            contractInteractor.relayVerifierInstance = {
+                contract: {
+                    methods: {
+                        verifyRelayedCall: () => ({ call: verifierCall })
+                    }
+                }
+            };
+            contractInteractor.relayHubInstance = {
+                contract: {
+                    methods: { relayCall: () => ({ call: relayCall }) }
+                }
+            } as any;
+        });
+
+        afterEach(function () {
+            sinon.restore();
+        });
+
+        it('should report the verifier stage with the decoded reason', async () => {
+            verifierCall.rejects(
+                new Error(
+                    'Returned error: VM execution error: transaction reverted: Token contract not allowed'
+                )
+            );
+            const result = await contractInteractor.validateAcceptRelayCall(
+                relayRequest,
+                '0x',
+                relayWorker
+            );
+            expect(result).to.include({
+                verifierAccepted: false,
+                stage: 'verifier',
+                code: 'verifierRejected'
+            });
+            expect(result.revert?.reason).to.be.equal(
+                'Token contract not allowed'
+            );
+        });
+
+        it('should report reverts in the destination', async () => {
+            relayCall.resolves(false);
+            const result = await contractInteractor.validateAcceptRelayCall(
+                relayRequest,
+                '0x',
+                relayWorker
+            );
+            expect(result).to.include({
+                verifierAccepted: true,
+                revertedInDestination: true,
+                stage: 'destination',
+                code: 'destinationReverted'
+            });
+        });
+
+        it('should report the balance stage without calling the verifier', async () => {
+            (
+                contractInteractor.getMaxViewableRelayGasLimit as sinon.SinonStub
+            ).resolves(0);
+            const result = await contractInteractor.validateAcceptRelayCall(
+                relayRequest,
+                '0x',
+                relayWorker
+            );
+            expect(result).to.include({
+                stage: 'balance',
+                code: 'insufficientWorkerBalance'
+            });
+            expect(verifierCall).to.not.have.been.called;
+        });
+    });
+
+    describe('dryRun', () => {
+        const relayWorker = '0x1111111111111111111111111111111111111111';
+        const tokenContract = '0x2222222222222222222222222222222222222222';
+        const request: RelayTransactionRequest = {
+            relayRequest: {
+                request: {
+                    relayHub: '0x3333333333333333333333333333333333333333',
+                    from: '0x4444444444444444444444444444444444444444',
+                    to: '0x5555555555555555555555555555555555555555',
+                    tokenContract,
+                    value: '0',
+                    gas: '40000',
+                    nonce: '0',
+                    tokenAmount: '1',
+                    tokenGas: '30000',
+                    validUntilTime: '0',
+                    data: '0x'
+                },
+                relayData: {
+                    gasPrice: '10',
+                    feesReceiver: '0x6666666666666666666666666666666666666666',
+                    callForwarder: '0x7777777777777777777777777777777777777777',
+                    callVerifier: '0x8888888888888888888888888888888888888888'
+                }
+            },
+            metadata: {
+                relayHubAddress: '0x3333333333333333333333333333333333333333',
+                relayMaxNonce: 1,
+                signature: '0x'
+            }
+        };
+        let verifierCall: sinon.SinonStub;
+
+        beforeEach(function () {
+            verifierCall = sinon.stub().resolves();
+            // @ts-ignore
+            contractInteractor.relayVerifierInstance = {
+                contract: {
+                    methods: {
+                        verifyRelayedCall: () => ({ call: verifierCall })
+                    }
+                }
+            };
+            contractInteractor.relayHubInstance = {
+                contract: {
+                    methods: {
+                        relayCall: () => ({ call: sinon.stub().resolves(true) })
+                    }
+                }
+            } as any;
+            sinon
+                .stub(
+                    contractInteractor,
+                    'estimateRelayTransactionMaxPossibleGasWithTransactionRequest'
+                )
+                .resolves(200000);
+            sinon
+                .stub(contractInteractor, 'estimateDestinationContractCallGas')
+                .callsFake(({ to }) =>
+                    Promise.resolve(to === tokenContract ? 20000 : 50000)
+                );
+            sinon.stub(contractInteractor, '_createERC20').resolves({
+                contract: {
+                    methods: {
+                        transfer: () => ({ encodeABI: () => '0xa9059cbb' })
+                    }
+                }
+            } as any);
+            sinon.stub(contractInteractor, 'getBalance').resolves('1000000');
+        });
+
+        afterEach(function () {
+            sinon.restore();
+        });
+
+        it('should report every gas figure of a relay request', async () => {
+            const report = await contractInteractor.dryRun(
+                request,
+                relayWorker
+            );
+            expect(report.kind).to.be.equal('relay');
+            expect(report.verifier.value).to.be.true;
+            expect(report.hub.value).to.be.true;
+            expect(report.destinationCallGas.value).to.be.equal(50000);
+            expect(report.tokenPaymentGas.value).to.be.equal(20000);
+            expect(report.maxPossibleGas.value).to.be.equal(200000);
+            expect(report.linearFitGas.value).to.be.a('number');
+            expect(report.requiredBalance).to.be.equal('2000000');
+            expect(report.affordable).to.be.false;
+        });
+
+        it('should keep running after a failed step', async () => {
+            verifierCall.rejects(
+                new Error('execution reverted: Token contract not allowed')
+            );
+            const report = await contractInteractor.dryRun(
+                request,
+                relayWorker,
+                1
+            );
+            expect(report.verifier.error?.reason).to.be.equal(
+                'Token contract not allowed'
+            );
+            expect(report.tokenPaymentGas.value).to.be.equal(20000);
+            expect(report.affordable).to.be.true;
+        });
+    });
+
+    describe('getRelayedTransaction', () => {
+        const hub = '0x3333333333333333333333333333333333333333';
+        const signature = '0x' + 'ab'.repeat(65);
+        const relayRequest: RelayRequest = {
+            request: {
+                relayHub: hub,
+                from: '0x4444444444444444444444444444444444444444',
+                to: '0x5555555555555555555555555555555555555555',
+                tokenContract: '0x2222222222222222222222222222222222222222',
+                value: '0',
+                gas: '40000',
+                nonce: '0',
+                tokenAmount: '0',
+                tokenGas: '0',
+                validUntilTime: '0',
+                data: '0x'
+            },
+            relayData: {
+                gasPrice: '60000000',
+                feesReceiver: '0x6666666666666666666666666666666666666666',
+                callForwarder: '0x7777777777777777777777777777777777777777',
+                callVerifier: '0x8888888888888888888888888888888888888888'
+            }
+        };
+        const transactionHash = '0x' + '01'.repeat(32);
+        const relayWorker = '0x9999999999999999999999999999999999999999';
+
+        function hubLog(eventSignature: string, sigHash: string): any {
+            return {
+                address: hub,
+                topics: [
+                    abi.encodeEventSignature(eventSignature),
+                    abi.encodeParameter('address', relayWorker)
+                ],
+                data: abi.encodeParameters(
+                    ['address', 'bytes32', 'bytes'],
+                    [relayWorker, sigHash, '0x']
+                ),
+                blockNumber: 12,
+                blockHash: '0x' + '02'.repeat(32),
+                transactionHash,
+                transactionIndex: 0,
+                logIndex: 0
+            };
+        }
+
+        let getTransactionReceipt: sinon.SinonStub;
+
+        beforeEach(() => {
+            sinon.stub(contractInteractor, 'getTransaction').resolves({
+                hash: transactionHash,
+                from: relayWorker,
+                to: hub,
+                nonce: 1,
+                gas: 300000,
+                gasPrice: '60000000',
+                blockNumber: 12,
+                input: contractInteractor.encodeRelayCallABI(
+                    relayRequest,
+                    signature
+                )
+            } as any);
+            getTransactionReceipt = sinon.stub(
+                contractInteractor.web3.eth,
+                'getTransactionReceipt'
+            );
+        });
+
+        afterEach(() => {
+            sinon.restore();
+        });
+
+        it('should report a pending transaction', async () => {
+            getTransactionReceipt.resolves(null);
+            const details = await contractInteractor.getRelayedTransaction(
+                transactionHash
+            );
+            expect(details.outcome).to.be.equal('pending');
+            expect(details.call).to.be.deep.equal({
+                method: 'relayCall',
+                relayRequest,
+                signature
+            });
+        });
+
+        it('should link the events of the request signature', async () => {
+            const sigHash = keccak256(signature);
+            getTransactionReceipt.resolves({
+                status: true,
+                logs: [
+                    hubLog(
+                        'TransactionRelayedButRevertedByRecipient(address,address,bytes32,bytes)',
+                        sigHash
+                    ),
+                    hubLog(
+                        'TransactionRelayed(address,address,bytes32,bytes)',
+                        '0x' + '00'.repeat(32)
+                    )
+                ]
+            });
+            const details = await contractInteractor.getRelayedTransaction(
+                transactionHash
+            );
+            expect(details.outcome).to.be.equal('rejectedByRecipient');
+            expect(details.events).to.have.lengthOf(1);
+            expect(details.events[0].relayRequestSigHash).to.be.equal(sigHash);
+        });
+
+        it('should report a reverted transaction', async () => {
+            getTransactionReceipt.resolves({ status: false, logs: [] });
+            const details = await contractInteractor.getRelayedTransaction(
+                transactionHash
+            );
+            expect(details.outcome).to.be.equal('reverted');
+        });
+
+        it('should not guess the outcome without an event of the request', async () => {
+            getTransactionReceipt.resolves({
+                status: true,
+                logs: [
+                    hubLog(
+                        'TransactionRelayed(address,address,bytes32,bytes)',
+                        '0x' + '00'.repeat(32)
+                    )
+                ]
+            });
+            const details = await contractInteractor.getRelayedTransaction(
+                transactionHash
+            );
+            expect(details.outcome).to.be.equal('noEvent');
+            expect(details.events).to.be.empty;
+        });
     });
 
     describe('getSmartWalletAddress', function () {
@@ -242,4 +617,170 @@ describe('ContractInteractor', () => {
             );
         });
     });
+
+    describe('getGasPrice', () => {
+        afterEach(() => {
+            sinon.restore();
+        });
+
+        it('should keep the node gas price apart from the adjusted one', async () => {
+            const interactor = new ContractInteractor(mockWeb3Provider, {
+                ...defaultConfig,
+                gasPriceFactorPercent: 10,
+                minGasPrice: 0
+            });
+            sinon.stub(interactor.web3.eth, 'getGasPrice').resolves('65000000');
+            expect(await interactor.getGasPrice()).to.be.equal('65000000');
+            expect(await interactor.getAdjustedGasPrice()).to.be.equal(
+                '71500000'
+            );
+        });
+    });
+
+    describe('getRawTxOptions', () => {
+        it('should sign for the chain on istanbul with EIP-155 by default', () => {
+            const { common } = getRawTxOptions(33, 33, 'private');
+            expect(common?.chainId()).to.be.equal(33);
+            expect(common?.hardfork()).to.be.equal('istanbul');
+        });
+
+        it('should use the given hardfork and disable EIP-155', () => {
+            expect(
+                getRawTxOptions(33, 33, 'private', {
+                    hardfork: 'petersburg'
+                }).common?.hardfork()
+            ).to.be.equal('petersburg');
+            expect(
+                getRawTxOptions(33, 33, 'private', {
+                    eip155: false
+                }).common?.gteHardfork('spuriousDragon')
+            ).to.be.false;
+        });
+
+        it('should reject inconsistent chain parameters', () => {
+            expect(() =>
+                getRawTxOptions(33, 33, 'private', { hardfork: 'unknown' })
+            ).to.throw('Invalid chain parameters for chainId 33');
+            expect(() =>
+                getRawTxOptions(33, 33, 'private', {
+                    hardfork: 'istanbul',
+                    eip155: false
+                })
+            ).to.throw('Hardfork istanbul enforces EIP-155');
+        });
+
+        it('should fail if the node is on another chain', () => {
+            const options = getRawTxOptions(31, 31, 'private');
+            expect(() => validateRawTxOptions(options, 31, 31)).to.not.throw();
+            expect(() => validateRawTxOptions(options, 33, 31)).to.throw(
+                'signed for chainId 31 but the node is on chainId 33'
+            );
+            expect(() => validateRawTxOptions(options, 31, 33)).to.throw(
+                'signed for networkId 31 but the node is on networkId 33'
+            );
+        });
+
+        it('should take the chain parameters from the config before the environment', () => {
+            const interactor = new ContractInteractor(mockWeb3Provider, {
+                ...defaultConfig,
+                eip155: false
+            });
+            expect(interactor._getRawTxChainParams()).to.be.deep.equal({
+                baseChain: undefined,
+                name: 'rskRegtest',
+                hardfork: undefined,
+                eip155: false
+            });
+            expect(() =>
+                getRawTxOptions(
+                    33,
+                    33,
+                    'private',
+                    interactor._getRawTxChainParams()
+                )
+            ).to.not.throw();
+        });
+    });
+
+    describe('diagnose', () => {
+        const relayHubAddress = '0x1111111111111111111111111111111111111111';
+        const relayVerifierAddress =
+            '0x2222222222222222222222222222222222222222';
+        const relayVerifierSelectors = IRelayVerifier.abi
+            .filter((item: { type: string }) => item.type === 'function')
+            .map((item: any) => abi.encodeFunctionSignature(item).slice(2))
+            .join('');
+        let interactor: ContractInteractor;
+
+        beforeEach(function () {
+            interactor = new ContractInteractor(mockWeb3Provider, {
+                ...defaultConfig,
+                relayHubAddress,
+                relayVerifierAddress
+            });
+            sinon.stub(interactor.web3.eth, 'getChainId').resolves(33);
+            sinon.stub(interactor.web3.eth.net, 'getId').resolves(33);
+            sinon
+                .stub(interactor, 'getCode')
+                .callsFake((address: string) =>
+                    Promise.resolve(
+                        address === relayVerifierAddress
+                            ? '0x60' + relayVerifierSelectors
+                            : '0x6080'
+                    )
+                );
+            sinon.stub(interactor, '_createRelayHub').resolves({
+                versionHub: () => Promise.resolve('2.0.1')
+            } as any);
+            sinon.stub(interactor, '_createRelayVerifier').resolves({
+                versionVerifier: () => Promise.resolve('2.0.1')
+            } as any);
+        });
+
+        afterEach(function () {
+            sinon.restore();
+        });
+
+        it('should report a healthy setup', async () => {
+            const report = await interactor.diagnose();
+            expect(report.healthy).to.be.true;
+            expect(
+                report.checks.find(
+                    (check) => check.name === 'deployVerifierCode'
+                )?.status
+            ).to.be.equal('warning');
+            expect(
+                report.checks.find(
+                    (check) => check.name === 'relayVerifierInterface'
+                )?.status
+            ).to.be.equal('ok');
+        });
+
+        it('should report chain, code, version and interface errors', async () => {
+            (interactor.web3.eth.getChainId as sinon.SinonStub).resolves(31);
+            (interactor._createRelayHub as sinon.SinonStub).resolves({
+                versionHub: () => Promise.resolve('1.0.0')
+            });
+            (interactor.getCode as sinon.SinonStub).resolves('0x6080');
+            const report = await interactor.diagnose();
+            expect(report.healthy).to.be.false;
+            expect(
+                report.checks
+                    .filter((check) => check.status === 'error')
+                    .map((check) => check.name)
+            ).to.be.deep.equal([
+                'chainId',
+                'relayHubVersion',
+                'relayVerifierInterface'
+            ]);
+        });
+
+        it('should make a strict init fail', async () => {
+            (interactor.getCode as sinon.SinonStub).resolves('0x');
+            await expect(interactor.init({ strict: true })).to.be.rejectedWith(
+                HealthCheckError,
+                'No contract code at relayHub'
+            );
+        });
+    });
 });
@@ -0,0 +1,190 @@
+import { expect } from 'chai';
+import { bufferToHex, privateToAddress } from 'ethereumjs-util';
+import { toChecksumAddress } from 'web3-utils';
+import { DeployRequest, RelayRequest } from '@rsksmart/rif-relay-contracts';
+import {
+    constants,
+    getDeployRequestTypedData,
+    getLocalEip712Signature,
+    getRelayRequestTypedData,
+    recoverDeployRequestSigner,
+    recoverRelayRequestSigner,
+    verifyDeployRequestSignature,
+    verifyRelayRequestSignature
+} from '../src';
+
+const chainId = 33;
+const privateKey = Buffer.from(
+    '0c06818f82e04c564290b32ab86b25676731fc34e9a546108bf109194c8e3aae',
+    'hex'
+);
+const signer = toChecksumAddress(bufferToHex(privateToAddress(privateKey)));
+const smartWallet = '0x1111111111111111111111111111111111111111';
+const factory = '0x2222222222222222222222222222222222222222';
+
+const relayRequest: RelayRequest = {
+    request: {
+        relayHub: '0xE0825f57Dd05Ef62FF731c27222A86E104CC4Cad',
+        from: signer,
+        to: '0x3333333333333333333333333333333333333333',
+        tokenContract: '0x726ECC75d5D51356AA4d0a5B648790cC345985ED',
+        value: '0',
+        gas: '100000',
+        nonce: '1',
+        tokenAmount: '10',
+        tokenGas: '50000',
+        validUntilTime: '0',
+        data: '0xa9059cbb'
+    },
+    relayData: {
+        gasPrice: '60000000',
+        feesReceiver: '0x4444444444444444444444444444444444444444',
+        callForwarder: smartWallet,
+        callVerifier: '0x5555555555555555555555555555555555555555'
+    }
+};
+
+const deployRequest: DeployRequest = {
+    request: {
+        relayHub: relayRequest.request.relayHub,
+        from: signer,
+        to: constants.ZERO_ADDRESS,
+        tokenContract: relayRequest.request.tokenContract,
+        recoverer: constants.ZERO_ADDRESS,
+        value: '0',
+        nonce: '0',
+        tokenAmount: '10',
+        tokenGas: '50000',
+        index: '0',
+        validUntilTime: '0',
+        data: '0x'
+    },
+    relayData: { ...relayRequest.relayData, callForwarder: factory }
+};
+
+describe('Eip712Utils', () => {
+    describe('getRelayRequestTypedData', () => {
+        it('should use the forwarder as verifying contract by default', () => {
+            const typedData = getRelayRequestTypedData(
+                chainId,
+                undefined,
+                relayRequest
+            );
+            expect(typedData.domain).to.include({
+                chainId,
+                verifyingContract: smartWallet
+            });
+            expect(typedData.primaryType).to.be.equal('RelayRequest');
+            expect(typedData.message.relayData).to.be.deep.equal(
+                relayRequest.relayData
+            );
+        });
+
+        it('should use the given verifying contract', () => {
+            const typedData = getDeployRequestTypedData(
+                31,
+                smartWallet,
+                deployRequest
+            );
+            expect(typedData.domain).to.include({
+                chainId: 31,
+                verifyingContract: smartWallet
+            });
+        });
+    });
+
+    describe('relay request signatures', () => {
+        const signature = getLocalEip712Signature(
+            getRelayRequestTypedData(chainId, undefined, relayRequest),
+            privateKey
+        );
+
+        it('should recover the signer', () => {
+            expect(
+                recoverRelayRequestSigner(
+                    chainId,
+                    undefined,
+                    relayRequest,
+                    signature
+                )
+            ).to.be.equal(signer);
+        });
+
+        it('should verify a valid signature', () => {
+            expect(
+                verifyRelayRequestSignature(
+                    chainId,
+                    undefined,
+                    relayRequest,
+                    signature
+                )
+            ).to.be.true;
+        });
+
+        it('should not verify a signature for another chain', () => {
+            expect(
+                verifyRelayRequestSignature(
+                    31,
+                    undefined,
+                    relayRequest,
+                    signature
+                )
+            ).to.be.false;
+        });
+
+        it('should not verify a tampered request', () => {
+            expect(
+                verifyRelayRequestSignature(
+                    chainId,
+                    undefined,
+                    {
+                        ...relayRequest,
+                        request: { ...relayRequest.request, nonce: '2' }
+                    },
+                    signature
+                )
+            ).to.be.false;
+        });
+
+        it('should not verify a malformed signature', () => {
+            expect(
+                verifyRelayRequestSignature(
+                    chainId,
+                    undefined,
+                    relayRequest,
+                    '0x1234'
+                )
+            ).to.be.false;
+        });
+    });
+
+    describe('deploy request signatures', () => {
+        const signature = getLocalEip712Signature(
+            getDeployRequestTypedData(chainId, undefined, deployRequest),
+            privateKey
+        );
+
+        it('should recover the signer', () => {
+            expect(
+                recoverDeployRequestSigner(
+                    chainId,
+                    undefined,
+                    deployRequest,
+                    signature
+                )
+            ).to.be.equal(signer);
+        });
+
+        it('should not verify for another signer', () => {
+            expect(
+                verifyDeployRequestSignature(
+                    chainId,
+                    undefined,
+                    deployRequest,
+                    signature,
+                    smartWallet
+                )
+            ).to.be.false;
+        });
+    });
+});
@@ -0,0 +1,108 @@
+import { expect } from 'chai';
+import sinon, { stubInterface } from 'ts-sinon';
+import {
+    ContractInteractor,
+    defaultEnvelopingConfig,
+    defaultEnvironment,
+    Environment,
+    environments,
+    getEnvironment,
+    getEnvironmentByChainId,
+    getEnvironmentByName,
+    isRsk,
+    registerEnvironment,
+    unregisterEnvironment,
+    Web3Provider
+} from '../src';
+
+describe('Environments', () => {
+    const customChain: Environment = {
+        ...environments.rskRegtest,
+        name: 'customChain',
+        chainId: 1337,
+        deployments: {}
+    };
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    after(() => {
+        unregisterEnvironment(1337);
+    });
+
+    it('should register the RSK networks by chainId and name', () => {
+        expect(getEnvironmentByChainId(30)?.name).to.be.equal('rskMainnet');
+        expect(getEnvironmentByChainId(31)?.name).to.be.equal('rskTestnet');
+        expect(getEnvironmentByName('RSKREGTEST')?.chainId).to.be.equal(33);
+        expect(defaultEnvironment.chainId).to.be.equal(33);
+        expect(isRsk(environments.rskMainnet)).to.be.true;
+    });
+
+    it('should carry the published deployments', () => {
+        expect(getEnvironmentByChainId(33)?.deployments.relayHub).to.be.equal(
+            '0xE0825f57Dd05Ef62FF731c27222A86E104CC4Cad'
+        );
+        expect(environments.rskMainnet.deployments).to.be.deep.equal({});
+    });
+
+    it('should keep resolving legacy network names', () => {
+        expect(getEnvironment('rsk')).to.be.equal(environments.rskRegtest);
+        expect(getEnvironment('rskTestnet')).to.be.equal(
+            environments.rskTestnet
+        );
+        expect(getEnvironment('development')).to.be.equal(defaultEnvironment);
+    });
+
+    it('should keep the deprecated environment keys', () => {
+        expect(environments.rsk).to.be.equal(environments.rskRegtest);
+        expect(environments.istanbul.chainId).to.be.equal(1);
+        expect(environments.constantinople.chainId).to.be.equal(1);
+        // they are not registered, chainId 1 stays free for custom chains
+        expect(getEnvironmentByChainId(1)).to.be.undefined;
+    });
+
+    it('should register custom environments', () => {
+        registerEnvironment(customChain);
+        expect(getEnvironmentByChainId(1337)).to.be.equal(customChain);
+        expect(getEnvironmentByName('customchain')).to.be.equal(customChain);
+        expect(isRsk(customChain)).to.be.false;
+        expect(() => registerEnvironment(customChain)).to.throw(
+            'already registered for chainId 1337'
+        );
+        expect(() =>
+            registerEnvironment({ ...customChain, chainId: 1338 })
+        ).to.throw('already used by chainId 1337');
+
+        const replacement = { ...customChain, name: 'customChain2' };
+        registerEnvironment(replacement, true);
+        expect(getEnvironmentByChainId(1337)).to.be.equal(replacement);
+        expect(getEnvironmentByName('customChain')).to.be.undefined;
+    });
+
+    it('should apply the gas constants of the environment', async () => {
+        registerEnvironment(
+            {
+                ...customChain,
+                gasConstants: {
+                    ...customChain.gasConstants,
+                    estimatedGasCorrectionFactor: 2,
+                    internalTransactionEstimateCorrection: 1000
+                }
+            },
+            true
+        );
+        const interactor = new ContractInteractor(
+            stubInterface<Web3Provider>(),
+            { ...defaultEnvelopingConfig, chainId: 1337 }
+        );
+        sinon.stub(interactor, 'estimateGas').resolves(21000);
+        expect(
+            await interactor.estimateDestinationContractCallGas({
+                from: '0x1111111111111111111111111111111111111111',
+                to: '0x2222222222222222222222222222222222222222',
+                data: '0x'
+            })
+        ).to.be.equal(40000);
+    });
+});
@@ -0,0 +1,141 @@
+import { expect } from 'chai';
+import web3Abi, { AbiCoder } from 'web3-eth-abi';
+import {
+    CustomErrorAbi,
+    decodeRevertReason,
+    ErrorDecoder,
+    extractRevertData,
+    extractRevertMessage
+} from '../src';
+
+const abi = web3Abi as unknown as AbiCoder;
+
+const errorData =
+    '0x08c379a0' + abi.encodeParameter('string', 'Not enough funds').slice(2);
+const panicData = '0x4e487b71' + abi.encodeParameter('uint256', 0x11).slice(2);
+
+const insufficientBalance: CustomErrorAbi = {
+    type: 'error',
+    name: 'InsufficientBalance',
+    inputs: [
+        { name: 'available', type: 'uint256' },
+        { name: 'required', type: 'uint256' }
+    ]
+};
+
+describe('ErrorDecoder', () => {
+    const decoder = new ErrorDecoder([insufficientBalance]);
+
+    describe('decodeRevertData', () => {
+        it('should decode Error(string)', () => {
+            const decoded = decoder.decodeRevertData(errorData);
+            expect(decoded.kind).to.be.equal('error');
+            expect(decoded.reason).to.be.equal('Not enough funds');
+        });
+
+        it('should decode Panic(uint256)', () => {
+            const decoded = decoder.decodeRevertData(panicData);
+            expect(decoded.kind).to.be.equal('panic');
+            expect(decoded.panicCode).to.be.equal(0x11);
+            expect(decoded.reason).to.be.equal(
+                'Panic(0x11): arithmetic overflow or underflow'
+            );
+        });
+
+        it('should decode registered custom errors', () => {
+            const data =
+                decoder.getSelector(insufficientBalance) +
+                abi.encodeParameters(['uint256', 'uint256'], [5, 10]).slice(2);
+            const decoded = decoder.decodeRevertData(data);
+            expect(decoded.kind).to.be.equal('custom');
+            expect(decoded.errorName).to.be.equal('InsufficientBalance');
+            expect(decoded.reason).to.be.equal('InsufficientBalance(5, 10)');
+        });
+
+        it('should report unknown selectors', () => {
+            expect(decoder.decodeRevertData('0xdeadbeef').kind).to.be.equal(
+                'unknown'
+            );
+        });
+    });
+
+    describe('extractRevertData', () => {
+        it('should read the data of ganache and json-rpc errors', () => {
+            expect(extractRevertData({ data: errorData })).to.be.equal(
+                errorData
+            );
+            expect(
+                extractRevertData({
+                    data: {
+                        '0xabc': { error: 'revert', return: panicData }
+                    }
+                })
+            ).to.be.equal(panicData);
+            expect(
+                extractRevertData({ error: { code: 3, data: errorData } })
+            ).to.be.equal(errorData);
+            expect(
+                extractRevertData(
+                    new Error(
+                        `Internal JSON-RPC error.\n{"code":-32000,"data":"${errorData}"}`
+                    )
+                )
+            ).to.be.equal(errorData);
+        });
+
+        it('should return undefined without revert data', () => {
+            expect(extractRevertData(new Error('timeout'))).to.be.undefined;
+        });
+    });
+
+    describe('extractRevertMessage', () => {
+        it('should parse the messages of RSKj, ganache and geth', () => {
+            expect(
+                extractRevertMessage(
+                    new Error(
+                        'Returned error: VM Exception while processing transaction: revert Verifier: token not allowed'
+                    )
+                )
+            ).to.be.equal('Verifier: token not allowed');
+            expect(
+                extractRevertMessage(
+                    new Error(
+                        'Returned error: VM execution error: transaction reverted: nonce mismatch'
+                    )
+                )
+            ).to.be.equal('nonce mismatch');
+            expect(
+                extractRevertMessage(
+                    new Error('execution reverted: Unauthorized')
+                )
+            ).to.be.equal('Unauthorized');
+        });
+    });
+
+    describe('decodeError', () => {
+        it('should prefer the revert data over the message', () => {
+            const error = Object.assign(new Error('execution reverted'), {
+                data: errorData
+            });
+            expect(decoder.decodeError(error)).to.include({
+                kind: 'error',
+                reason: 'Not enough funds'
+            });
+        });
+
+        it('should fall back to the error message', () => {
+            expect(decoder.decodeError(new Error('timeout'))).to.be.deep.equal({
+                kind: 'message',
+                reason: 'timeout'
+            });
+        });
+    });
+
+    it('decodeRevertReason should keep undecodable bytes', () => {
+        expect(decodeRevertReason(errorData)).to.be.equal('Not enough funds');
+        expect(decodeRevertReason('0xdeadbeef')).to.be.equal('0xdeadbeef');
+        expect(() => decodeRevertReason('0xdeadbeef', true)).to.throw(
+            'invalid revert bytes'
+        );
+    });
+});
@@ -0,0 +1,199 @@
+import { expect } from 'chai';
+import { HttpProvider } from 'web3-core';
+import { FailoverProvider, RequestTimeoutError, sleep } from '../src';
+import { request, StandInProvider } from './StandInProvider';
+
+/**
+ * A local node stand-in that answers eth_blockNumber and echoes its name for other methods
+ */
+function standIn(host: string): StandInProvider & { blockNumber: number } {
+    const node = Object.assign(new StandInProvider(undefined, host), {
+        blockNumber: 100
+    });
+    node.answer = ({ method }) => {
+        switch (method) {
+            case 'eth_chainId':
+                return { error: { code: -32000, message: 'node error' } };
+            case 'eth_blockNumber':
+                return { result: '0x' + node.blockNumber.toString(16) };
+            default:
+                return { result: host };
+        }
+    };
+    return node;
+}
+
+describe('FailoverProvider', () => {
+    let primary: ReturnType<typeof standIn>;
+    let secondary: ReturnType<typeof standIn>;
+    let provider: FailoverProvider;
+
+    beforeEach(() => {
+        primary = standIn('primary');
+        secondary = standIn('secondary');
+        provider = new FailoverProvider(
+            [
+                primary as unknown as HttpProvider,
+                secondary as unknown as HttpProvider
+            ],
+            { maxBlockLag: 2 }
+        );
+    });
+
+    it('should route to the endpoint with the best priority', async () => {
+        expect((await request(provider, 'eth_gasPrice')).result).to.be.equal(
+            'primary'
+        );
+        expect(provider.host).to.be.equal('primary');
+    });
+
+    it('should fail over on connection errors', async () => {
+        primary.down = true;
+        expect((await request(provider, 'eth_gasPrice')).result).to.be.equal(
+            'secondary'
+        );
+        expect(provider.host).to.be.equal('secondary');
+        const [primaryHealth] = provider.getHealth();
+        expect(primaryHealth.healthy).to.be.false;
+        expect(primaryHealth.lastError).to.include('primary is down');
+        // the failed endpoint is not tried again until retryAfterMs elapses
+        primary.sent = [];
+        await request(provider, 'eth_gasPrice');
+        expect(primary.calls).to.be.deep.equal([]);
+    });
+
+    it('should fail when every endpoint is down', async () => {
+        primary.down = true;
+        secondary.down = true;
+        try {
+            await request(provider, 'eth_gasPrice');
+            expect.fail('should have failed');
+        } catch (e) {
+            expect((e as Error).message).to.include('secondary is down');
+        }
+    });
+
+    it('should return JSON-RPC errors without failing over', async () => {
+        const response = await request(provider, 'eth_chainId');
+        expect(response.error).to.deep.include({ message: 'node error' });
+        expect(secondary.calls).to.be.deep.equal([]);
+    });
+
+    it('should avoid the endpoints lagging behind', async () => {
+        primary.blockNumber = 97;
+        const health = await provider.checkHealth();
+        expect(health.map(({ blockLag }) => blockLag)).to.be.deep.equal([3, 0]);
+        expect(health.map(({ healthy }) => healthy)).to.be.deep.equal([
+            false,
+            true
+        ]);
+        expect((await request(provider, 'eth_gasPrice')).result).to.be.equal(
+            'secondary'
+        );
+    });
+
+    it('should keep the consistent requests on the same endpoint', async () => {
+        const failover = new FailoverProvider(
+            [
+                primary as unknown as HttpProvider,
+                secondary as unknown as HttpProvider
+            ],
+            { retryAfterMs: 0 }
+        );
+        primary.down = true;
+        await request(failover, 'eth_getTransactionCount');
+        primary.down = false;
+        // the primary is back and preferred for the other requests...
+        expect((await request(failover, 'eth_gasPrice')).result).to.be.equal(
+            'primary'
+        );
+        // ...but the nonce reads and sends stay where they started
+        expect(
+            (await request(failover, 'eth_sendRawTransaction')).result
+        ).to.be.equal('secondary');
+        expect(
+            (await request(failover, 'eth_getTransactionCount')).result
+        ).to.be.equal('secondary');
+    });
+
+    it('should accept priorities', async () => {
+        const failover = new FailoverProvider([
+            { provider: primary as unknown as HttpProvider, priority: 2 },
+            {
+                provider: secondary as unknown as HttpProvider,
+                priority: 1,
+                name: 'backup'
+            }
+        ]);
+        expect((await request(failover, 'eth_gasPrice')).result).to.be.equal(
+            'secondary'
+        );
+        expect(failover.getHealth().map(({ name }) => name)).to.be.deep.equal([
+            'primary',
+            'backup'
+        ]);
+    });
+
+    it('should fail over from endpoints that do not answer', async () => {
+        const failover = new FailoverProvider(
+            [
+                primary as unknown as HttpProvider,
+                secondary as unknown as HttpProvider
+            ],
+            { requestTimeoutMs: 20 }
+        );
+        primary.answer = () => 'hang';
+        expect((await request(failover, 'eth_gasPrice')).result).to.be.equal(
+            'secondary'
+        );
+        expect(failover.getHealth()[0].lastError).to.be.equal(
+            'primary timed out after 20ms'
+        );
+    });
+
+    it('should not send again a transaction that timed out', async () => {
+        const failover = new FailoverProvider(
+            [
+                primary as unknown as HttpProvider,
+                secondary as unknown as HttpProvider
+            ],
+            { requestTimeoutMs: 20 }
+        );
+        primary.answer = () => 'hang';
+        try {
+            await request(failover, 'eth_sendRawTransaction', ['0x00']);
+            expect.fail('should have failed');
+        } catch (e) {
+            expect(e).to.be.instanceOf(RequestTimeoutError);
+        }
+        expect(secondary.calls).to.be.deep.equal([]);
+        // once the primary is marked down, the next send goes to the secondary
+        expect(
+            (await request(failover, 'eth_sendRawTransaction', ['0x00'])).result
+        ).to.be.equal('secondary');
+    });
+
+    it('should check the health of the endpoints in the background', async () => {
+        const failover = new FailoverProvider(
+            [
+                primary as unknown as HttpProvider,
+                secondary as unknown as HttpProvider
+            ],
+            { retryAfterMs: 0, smoothing: 0.6, healthCheckIntervalMs: 1 }
+        );
+        primary.down = true;
+        await request(failover, 'eth_gasPrice');
+        primary.down = false;
+        expect(failover.getHealth()[0].healthy).to.be.false;
+        await sleep(5);
+        // the health check it triggers finds the primary back
+        expect((await request(failover, 'eth_gasPrice')).result).to.be.equal(
+            'secondary'
+        );
+        expect(primary.calls).to.include('eth_blockNumber');
+        expect(failover.getHealth()[0].healthy).to.be.true;
+        expect((await request(failover, 'eth_gasPrice')).result).to.be.equal(
+            'primary'
+        );
+    });
+});
@@ -0,0 +1,172 @@
+import { expect } from 'chai';
+import { bufferToHex, privateToAddress } from 'ethereumjs-util';
+import { toChecksumAddress } from 'web3-utils';
+import {
+    getDomainSeparatorHash,
+    RelayRequest
+} from '@rsksmart/rif-relay-contracts';
+import {
+    getLocalEip712Signature,
+    getOwnerHash,
+    getRelayDataHash,
+    getRelayRequestTypedData,
+    verifyForwardRequest
+} from '../src';
+
+const chainId = 33;
+const privateKey = Buffer.from(
+    '0c06818f82e04c564290b32ab86b25676731fc34e9a546108bf109194c8e3aae',
+    'hex'
+);
+const owner = toChecksumAddress(bufferToHex(privateToAddress(privateKey)));
+const smartWallet = '0x1111111111111111111111111111111111111111';
+
+const relayRequest: RelayRequest = {
+    request: {
+        relayHub: '0xE0825f57Dd05Ef62FF731c27222A86E104CC4Cad',
+        from: owner,
+        to: '0x3333333333333333333333333333333333333333',
+        tokenContract: '0x726ECC75d5D51356AA4d0a5B648790cC345985ED',
+        value: '0',
+        gas: '100000',
+        nonce: '4',
+        tokenAmount: '10',
+        tokenGas: '50000',
+        validUntilTime: '2000000000',
+        data: '0xa9059cbb'
+    },
+    relayData: {
+        gasPrice: '60000000',
+        feesReceiver: '0x4444444444444444444444444444444444444444',
+        callForwarder: smartWallet,
+        callVerifier: '0x5555555555555555555555555555555555555555'
+    }
+};
+
+describe('ForwarderVerification', () => {
+    const signature = getLocalEip712Signature(
+        getRelayRequestTypedData(chainId, undefined, relayRequest),
+        privateKey
+    );
+    const suffixData = getRelayDataHash(chainId, relayRequest);
+    const now = 1600000000;
+
+    it('should accept a valid request and report skipped checks', () => {
+        expect(
+            verifyForwardRequest(
+                chainId,
+                suffixData,
+                relayRequest,
+                signature,
+                {},
+                now
+            )
+        ).to.be.deep.equal({
+            valid: true,
+            skippedChecks: ['domain', 'owner', 'nonce']
+        });
+    });
+
+    it('should accept a valid request with the full wallet state', () => {
+        const result = verifyForwardRequest(
+            chainId,
+            suffixData,
+            relayRequest,
+            signature,
+            {
+                nonce: 4,
+                ownerHash: getOwnerHash(owner),
+                domainSeparator: getDomainSeparatorHash(smartWallet, chainId)
+            },
+            now
+        );
+        expect(result).to.be.deep.equal({ valid: true, skippedChecks: [] });
+    });
+
+    const failures: Array<
+        [string, () => ReturnType<typeof verifyForwardRequest>]
+    > = [
+        [
+            'domain',
+            () =>
+                verifyForwardRequest(
+                    chainId,
+                    suffixData,
+                    relayRequest,
+                    signature,
+                    {
+                        domainSeparator: getDomainSeparatorHash(smartWallet, 31)
+                    },
+                    now
+                )
+        ],
+        [
+            'suffixData',
+            () =>
+                verifyForwardRequest(
+                    chainId,
+                    '0x' + '00'.repeat(32),
+                    relayRequest,
+                    signature,
+                    {},
+                    now
+                )
+        ],
+        [
+            'signature',
+            () =>
+                verifyForwardRequest(
+                    31,
+                    getRelayDataHash(31, relayRequest),
+                    relayRequest,
+                    signature,
+                    {},
+                    now
+                )
+        ],
+        [
+            'owner',
+            () =>
+                verifyForwardRequest(
+                    chainId,
+                    suffixData,
+                    relayRequest,
+                    signature,
+                    { owner: smartWallet },
+                    now
+                )
+        ],
+        [
+            'nonce',
+            () =>
+                verifyForwardRequest(
+                    chainId,
+                    suffixData,
+                    relayRequest,
+                    signature,
+                    { nonce: '5' },
+                    now
+                )
+        ],
+        [
+            'expiration',
+            () =>
+                verifyForwardRequest(
+                    chainId,
+                    suffixData,
+                    relayRequest,
+                    signature,
+                    {},
+                    2000000000
+                )
+        ]
+    ];
+    failures.forEach(([check, verify]) => {
+        it(`should fail the ${check} check`, () => {
+            const result = verify();
+            expect(result.valid).to.be.false;
+            expect(result.failedCheck).to.be.equal(check);
+            expect(result.message).to.be.a('string');
+        });
+    });
+});
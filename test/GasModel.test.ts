@@ -0,0 +1,158 @@
+import { expect } from 'chai';
+import { TransactionReceipt } from 'web3-core';
+import { RelayRequest } from '@rsksmart/rif-relay-contracts';
+import {
+    calculateDeployTransactionMaxPossibleGas,
+    calibrateGasModel,
+    estimateMaxPossibleRelayCallWithLinearFit,
+    fitLinearGas,
+    GasModel,
+    isSuccessfulRelayReceipt,
+    RelayedTransactionObservation
+} from '../src';
+
+const relayHub = '0x3333333333333333333333333333333333333333';
+// keccak256('TransactionRelayed(address,address,bytes32,bytes)')
+const transactionRelayedTopic =
+    '0xdf198d2c3963f45c88b865617cc67ce19c4857c2e764157f09d482bebc7d2694';
+
+function observation(
+    gas: number,
+    tokenGas: number,
+    gasUsed: number,
+    topic: string,
+    emitter = relayHub
+): RelayedTransactionObservation {
+    return {
+        receipt: {
+            status: true,
+            to: relayHub,
+            gasUsed,
+            logs: [{ address: emitter, topics: [topic] }]
+        } as unknown as TransactionReceipt,
+        relayRequest: {
+            request: { gas: gas.toString(), tokenGas: tokenGas.toString() }
+        } as RelayRequest
+    };
+}
+
+describe('GasModel', () => {
+    it('should keep the previous linear fit by default', () => {
+        expect(
+            estimateMaxPossibleRelayCallWithLinearFit(100000, 0)
+        ).to.be.equal(Math.ceil(85090.977 + 1.067 * 100000));
+        expect(
+            estimateMaxPossibleRelayCallWithLinearFit(100000, 20000)
+        ).to.be.equal(Math.ceil(72530.9611 + 1.1114 * 120000));
+        expect(
+            calculateDeployTransactionMaxPossibleGas('100000').toNumber()
+        ).to.be.equal(112000);
+        expect(
+            calculateDeployTransactionMaxPossibleGas('100000', '1').toNumber()
+        ).to.be.equal(100000);
+    });
+
+    it('should use the given coefficients', () => {
+        const model = new GasModel({
+            subsidizedRelay: { intercept: 1000, slope: 2 },
+            sponsoredRelay: { intercept: 500, slope: 1 },
+            subsidizedDeployOverhead: 10
+        });
+        expect(model.estimateMaxPossibleRelayGas(100, 0)).to.be.equal(1200);
+        expect(model.estimateMaxPossibleRelayGas(100, 50)).to.be.equal(650);
+        expect(
+            model.estimateMaxPossibleDeployGas('100').toNumber()
+        ).to.be.equal(110);
+    });
+
+    describe('fitLinearGas', () => {
+        it('should recover the coefficients of exact samples', () => {
+            const fit = fitLinearGas(
+                [10000, 50000, 90000].map((x) => ({
+                    x,
+                    gasUsed: 80000 + 1.1 * x
+                }))
+            );
+            expect(fit.coefficients.intercept).to.be.closeTo(80000, 1e-6);
+            expect(fit.coefficients.slope).to.be.closeTo(1.1, 1e-9);
+            expect(fit.rSquared).to.be.closeTo(1, 1e-9);
+            expect(fit.maxUnderestimate).to.be.closeTo(0, 1e-6);
+        });
+
+        it('should report the error bounds', () => {
+            const fit = fitLinearGas([
+                { x: 0, gasUsed: 1000 },
+                { x: 10, gasUsed: 1100 },
+                { x: 20, gasUsed: 1000 }
+            ]);
+            expect(fit.coefficients.slope).to.be.equal(0);
+            expect(fit.maxUnderestimate).to.be.closeTo(
+                1100 - 1000 * (2 / 3) - 1100 / 3,
+                1e-6
+            );
+            expect(fit.maxOverestimate).to.be.closeTo(100 / 3, 1e-6);
+        });
+
+        it('should reject samples it cannot fit', () => {
+            expect(() => fitLinearGas([{ x: 1, gasUsed: 1 }])).to.throw(
+                'At least two samples'
+            );
+            expect(() =>
+                fitLinearGas([
+                    { x: 1, gasUsed: 1 },
+                    { x: 1, gasUsed: 2 }
+                ])
+            ).to.throw('same gas limit');
+        });
+    });
+
+    describe('calibrateGasModel', () => {
+        it('should fit subsidized and sponsored relays separately', () => {
+            const calibration = calibrateGasModel([
+                observation(10000, 0, 90000 + 10000, transactionRelayedTopic),
+                observation(50000, 0, 90000 + 50000, transactionRelayedTopic),
+                observation(
+                    10000,
+                    20000,
+                    70000 + 1.2 * 30000,
+                    transactionRelayedTopic
+                ),
+                observation(
+                    60000,
+                    20000,
+                    70000 + 1.2 * 80000,
+                    transactionRelayedTopic
+                )
+            ]);
+            expect(calibration.skipped).to.be.equal(0);
+            expect(calibration.subsidizedRelay?.samples).to.be.equal(2);
+            expect(
+                calibration.coefficients.subsidizedRelay.intercept
+            ).to.be.closeTo(90000, 1e-6);
+            expect(calibration.coefficients.sponsoredRelay.slope).to.be.closeTo(
+                1.2,
+                1e-9
+            );
+        });
+
+        it('should skip receipts without a TransactionRelayed event from the hub', () => {
+            const calibration = calibrateGasModel([
+                observation(10000, 0, 100000, '0x1234'),
+                observation(
+                    50000,
+                    0,
+                    140000,
+                    transactionRelayedTopic,
+                    '0x5555555555555555555555555555555555555555'
+                )
+            ]);
+            expect(calibration.skipped).to.be.equal(2);
+            expect(calibration.subsidizedRelay).to.be.undefined;
+            expect(
+                isSuccessfulRelayReceipt(
+                    observation(1, 0, 1, transactionRelayedTopic).receipt
+                )
+            ).to.be.true;
+        });
+    });
+});
@@ -0,0 +1,180 @@
+import sinon from 'ts-sinon';
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import sinonChai from 'sinon-chai';
+import BN from 'bn.js';
+import Web3 from 'web3';
+import {
+    FixedGasPriceStrategy,
+    GasPriceOracle,
+    GasPriceStrategy,
+    PercentileGasPriceStrategy,
+    percentileOf
+} from '../src';
+
+use(sinonChai);
+use(chaiAsPromised);
+
+describe('GasPriceOracle', () => {
+    const config = { minGasPrice: 60000000, gasPriceFactorPercent: 0 };
+    let getBlockNumber: sinon.SinonStub;
+    let getBlock: sinon.SinonStub;
+    let getGasPrice: sinon.SinonStub;
+    let web3: Web3;
+
+    beforeEach(function () {
+        getBlockNumber = sinon.stub().resolves(100);
+        getBlock = sinon.stub();
+        getGasPrice = sinon.stub().resolves('65000000');
+        web3 = {
+            eth: { getBlockNumber, getBlock, getGasPrice }
+        } as unknown as Web3;
+    });
+
+    afterEach(function () {
+        sinon.restore();
+    });
+
+    describe('getGasPrice', () => {
+        it('should use the node gas price by default', async () => {
+            const oracle = new GasPriceOracle(web3, config);
+            expect(await oracle.getGasPrice()).to.be.equal('65000000');
+            expect(getGasPrice).to.have.been.calledOnce;
+        });
+
+        it('should apply gasPriceFactorPercent', async () => {
+            const oracle = new GasPriceOracle(web3, {
+                ...config,
+                gasPriceFactorPercent: 10
+            });
+            expect(await oracle.getGasPrice()).to.be.equal('71500000');
+        });
+
+        it('should not return less than minGasPrice', async () => {
+            const oracle = new GasPriceOracle(
+                web3,
+                config,
+                new FixedGasPriceStrategy(1000)
+            );
+            expect(await oracle.getGasPrice()).to.be.equal('60000000');
+        });
+
+        it('should cap the gas price to maxGasPrice', async () => {
+            const oracle = new GasPriceOracle(
+                web3,
+                config,
+                new FixedGasPriceStrategy('90000000'),
+                { maxGasPrice: 70000000 }
+            );
+            expect(await oracle.getGasPrice()).to.be.equal('70000000');
+        });
+    });
+
+    describe('cache', () => {
+        let strategy: GasPriceStrategy;
+        let strategyStub: sinon.SinonStub;
+
+        beforeEach(function () {
+            strategyStub = sinon.stub().resolves(new BN(70000000));
+            strategy = { name: 'stub', getGasPrice: strategyStub };
+        });
+
+        it('should reuse the cached price until maxAgeMs elapses', async () => {
+            const clock = sinon.useFakeTimers(Date.now());
+            const oracle = new GasPriceOracle(web3, config, strategy, {
+                maxAgeMs: 1000
+            });
+            await oracle.getGasPrice();
+            clock.tick(999);
+            await oracle.getGasPrice();
+            expect(strategyStub).to.have.been.calledOnce;
+            clock.tick(1);
+            await oracle.getGasPrice();
+            expect(strategyStub).to.have.been.calledTwice;
+        });
+
+        it('should refresh the price after maxAgeBlocks new blocks', async () => {
+            const oracle = new GasPriceOracle(web3, config, strategy, {
+                maxAgeMs: 0,
+                maxAgeBlocks: 2
+            });
+            await oracle.getGasPrice();
+            getBlockNumber.resolves(101);
+            await oracle.getGasPrice();
+            expect(strategyStub).to.have.been.calledOnce;
+            getBlockNumber.resolves(102);
+            await oracle.getGasPrice();
+            expect(strategyStub).to.have.been.calledTwice;
+        });
+
+        it('should not cache without expiration', async () => {
+            const oracle = new GasPriceOracle(web3, config, strategy, {
+                maxAgeMs: 0,
+                maxAgeBlocks: 0
+            });
+            await oracle.getGasPrice();
+            await oracle.getGasPrice();
+            expect(strategyStub).to.have.been.calledTwice;
+        });
+
+        it('should share the in-flight request between concurrent callers', async () => {
+            const oracle = new GasPriceOracle(web3, config, strategy);
+            await Promise.all([
+                oracle.getGasPrice(),
+                oracle.getGasPrice(),
+                oracle.getGasPrice()
+            ]);
+            expect(strategyStub).to.have.been.calledOnce;
+        });
+
+        it('should fetch again after invalidate', async () => {
+            const oracle = new GasPriceOracle(web3, config, strategy);
+            await oracle.getGasPrice();
+            oracle.invalidate();
+            await oracle.getGasPrice();
+            expect(strategyStub).to.have.been.calledTwice;
+        });
+    });
+
+    describe('PercentileGasPriceStrategy', () => {
+        it('should return the percentile of the recent transactions gas prices', async () => {
+            getBlock.callsFake((blockNumber: number) =>
+                Promise.resolve({
+                    number: blockNumber,
+                    transactions: [{ gasPrice: (blockNumber * 10).toString() }]
+                })
+            );
+            const strategy = new PercentileGasPriceStrategy(web3, {
+                blockCount: 4,
+                percentile: 50
+            });
+            const gasPrice = await strategy.getGasPrice();
+            expect(getBlock).to.have.callCount(4);
+            expect(gasPrice.toString()).to.be.equal('980');
+        });
+
+        it('should fall back to the node price on empty blocks', async () => {
+            getBlock.resolves({ transactions: [] });
+            const strategy = new PercentileGasPriceStrategy(web3);
+            const gasPrice = await strategy.getGasPrice();
+            expect(gasPrice.toString()).to.be.equal('65000000');
+        });
+
+        it('should reject an invalid percentile', () => {
+            expect(
+                () => new PercentileGasPriceStrategy(web3, { percentile: 101 })
+            ).to.throw('Invalid percentile');
+        });
+    });
+
+    describe('percentileOf', () => {
+        const values = [5, 1, 4, 2, 3].map((value) => new BN(value));
+
+        it('should use the nearest rank', () => {
+            expect(percentileOf(values, 0).toNumber()).to.be.equal(1);
+            expect(percentileOf(values, 40).toNumber()).to.be.equal(2);
+            expect(percentileOf(values, 50).toNumber()).to.be.equal(3);
+            expect(percentileOf(values, 100).toNumber()).to.be.equal(5);
+        });
+    });
+});
@@ -0,0 +1,209 @@
+import sinon from 'ts-sinon';
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import sinonChai from 'sinon-chai';
+import { EventData, PastEventOptions } from 'web3-eth-contract';
+import {
+    EventSource,
+    getLookupWindowSize,
+    LogScanCheckpoint,
+    LogScanner,
+    resolveBlockNumber
+} from '../src';
+
+use(sinonChai);
+use(chaiAsPromised);
+
+function fakeEvent(blockNumber: number, logIndex = 0): EventData {
+    return {
+        event: 'RelayServerRegistered',
+        blockNumber,
+        blockHash: `0x${blockNumber.toString(16)}`,
+        transactionHash: `0xtx${blockNumber}`,
+        transactionIndex: 0,
+        logIndex,
+        returnValues: {},
+        raw: { data: '0x', topics: [] },
+        signature: '',
+        address: '0x0'
+    };
+}
+
+describe('LogScanner', () => {
+    // one event on every block
+    const allEvents = Array.from({ length: 100 }, (_, i) => fakeEvent(i));
+    let getPastEvents: sinon.SinonStub;
+    let source: EventSource;
+
+    beforeEach(function () {
+        getPastEvents = sinon
+            .stub()
+            .callsFake((_: string, options: PastEventOptions) =>
+                Promise.resolve(
+                    allEvents.filter(
+                        (event) =>
+                            event.blockNumber >=
+                                (options.fromBlock as number) &&
+                            event.blockNumber <= (options.toBlock as number)
+                    )
+                )
+            );
+        source = { getPastEvents };
+    });
+
+    afterEach(function () {
+        sinon.restore();
+    });
+
+    it('should split the range in windows', async () => {
+        const scanner = new LogScanner(source, { windowSize: 30 });
+        const events = await scanner.scan(10, 89);
+        expect(getPastEvents).to.have.callCount(3);
+        expect(getPastEvents.firstCall.args[1]).to.include({
+            fromBlock: 10,
+            toBlock: 39
+        });
+        expect(getPastEvents.lastCall.args[1]).to.include({
+            fromBlock: 70,
+            toBlock: 89
+        });
+        expect(events.map((event) => event.blockNumber)).to.be.deep.equal(
+            allEvents.slice(10, 90).map((event) => event.blockNumber)
+        );
+    });
+
+    it('should pass the filter options to every window', async () => {
+        const scanner = new LogScanner(source, { windowSize: 50 });
+        await scanner.scan(0, 99, { topics: [['0x1']] });
+        getPastEvents.getCalls().forEach((call) => {
+            expect(call.args[1].topics).to.be.deep.equal([['0x1']]);
+        });
+    });
+
+    it('should shrink the window when the node returns too many results', async () => {
+        getPastEvents.callsFake((_: string, options: PastEventOptions) => {
+            const size =
+                (options.toBlock as number) - (options.fromBlock as number) + 1;
+            if (size > 25) {
+                return Promise.reject(
+                    new Error('query returned more than 10000 results')
+                );
+            }
+            return Promise.resolve(
+                allEvents.filter(
+                    (event) =>
+                        event.blockNumber >= (options.fromBlock as number) &&
+                        event.blockNumber <= (options.toBlock as number)
+                )
+            );
+        });
+        const scanner = new LogScanner(source, { windowSize: 100 });
+        const events = await scanner.scan(0, 99);
+        expect(events.map((event) => event.blockNumber)).to.be.deep.equal(
+            allEvents.map((event) => event.blockNumber)
+        );
+        expect(getPastEvents.getCall(2).args[1]).to.include({
+            fromBlock: 0,
+            toBlock: 24
+        });
+    });
+
+    it('should fail when the minimum window still has too many results', async () => {
+        getPastEvents.rejects(new Error('too many results'));
+        const scanner = new LogScanner(source, {
+            windowSize: 4,
+            minWindowSize: 2
+        });
+        await expect(scanner.scan(0, 99)).to.be.rejectedWith(
+            'too many results'
+        );
+    });
+
+    it('should retry transient errors', async () => {
+        getPastEvents.onFirstCall().rejects(new Error('socket hang up'));
+        const scanner = new LogScanner(source, {
+            windowSize: 100,
+            retryBackoffMs: 1
+        });
+        const events = await scanner.scan(0, 99);
+        expect(events).to.have.length(100);
+        expect(getPastEvents).to.have.been.calledTwice;
+    });
+
+    it('should give up after maxRetries', async () => {
+        getPastEvents.rejects(new Error('socket hang up'));
+        const scanner = new LogScanner(source, {
+            maxRetries: 2,
+            retryBackoffMs: 1
+        });
+        await expect(scanner.scan(0, 99)).to.be.rejectedWith('socket hang up');
+        expect(getPastEvents).to.have.been.calledThrice;
+    });
+
+    it('should not return duplicated events', async () => {
+        getPastEvents.callsFake((_: string, options: PastEventOptions) =>
+            Promise.resolve([
+                fakeEvent(options.fromBlock as number),
+                fakeEvent(5)
+            ])
+        );
+        const scanner = new LogScanner(source, { windowSize: 10 });
+        const events = await scanner.scan(0, 29);
+        expect(events.map((event) => event.blockNumber)).to.be.deep.equal([
+            0, 5, 10, 20
+        ]);
+    });
+
+    it('should report checkpoints and resume from them', async () => {
+        const checkpoints: LogScanCheckpoint[] = [];
+        const scanner = new LogScanner(source, {
+            windowSize: 40,
+            onCheckpoint: (checkpoint) => {
+                checkpoints.push(checkpoint);
+            }
+        });
+        await scanner.scan(0, 99);
+        expect(checkpoints.map((c) => c.nextBlock)).to.be.deep.equal([
+            40, 80, 100
+        ]);
+
+        getPastEvents.resetHistory();
+        const resumed = new LogScanner(source, {
+            windowSize: 40,
+            checkpoint: checkpoints[0]
+        });
+        const events = await resumed.scan(0, 99);
+        expect(events[0].blockNumber).to.be.equal(40);
+        expect(events).to.have.length(60);
+    });
+
+    it('should reject a checkpoint of a different scan', async () => {
+        const scanner = new LogScanner(source, {
+            checkpoint: { fromBlock: 5, toBlock: 99, nextBlock: 50 }
+        });
+        await expect(scanner.scan(0, 99)).to.be.rejectedWith(
+            'does not match the scan'
+        );
+    });
+
+    describe('getLookupWindowSize', () => {
+        it('should divide the lookup window in parts', () => {
+            expect(
+                getLookupWindowSize({
+                    relayLookupWindowBlocks: 60000,
+                    relayLookupWindowParts: 7
+                })
+            ).to.be.equal(8572);
+        });
+    });
+
+    describe('resolveBlockNumber', () => {
+        it('should resolve block tags', () => {
+            expect(resolveBlockNumber(undefined, 10)).to.be.equal(10);
+            expect(resolveBlockNumber('latest', 10)).to.be.equal(10);
+            expect(resolveBlockNumber('earliest', 10)).to.be.equal(0);
+            expect(resolveBlockNumber('0x10', 100)).to.be.equal(16);
+            expect(resolveBlockNumber(7, 100)).to.be.equal(7);
+        });
+    });
+});
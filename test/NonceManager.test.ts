@@ -0,0 +1,105 @@
+import sinon, { stubInterface } from 'ts-sinon';
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {
+    ContractInteractor,
+    EnvelopingConfig,
+    NonceManager,
+    RelayMaxNonceError,
+    Web3Provider
+} from '../src';
+
+use(chaiAsPromised);
+
+const worker = '0x9999999999999999999999999999999999999999';
+
+describe('NonceManager', () => {
+    let contractInteractor: ContractInteractor;
+    let nonceManager: NonceManager;
+    let pendingCount: number;
+
+    beforeEach(() => {
+        contractInteractor = new ContractInteractor(
+            stubInterface<Web3Provider>(),
+            { chainId: 33 } as EnvelopingConfig
+        );
+        pendingCount = 4;
+        sinon
+            .stub(contractInteractor, 'getTransactionCount')
+            .callsFake(async () => pendingCount);
+        nonceManager = new NonceManager(contractInteractor, {
+            maxRelayNonceGap: 3
+        });
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    it('should hand out different nonces to concurrent senders', async () => {
+        const reservations = await Promise.all(
+            [1, 2, 3, 4, 5].map(async () => await nonceManager.reserve(worker))
+        );
+        expect(reservations.map(({ nonce }) => nonce)).to.be.deep.equal([
+            4, 5, 6, 7, 8
+        ]);
+    });
+
+    it('should not go below the pending count of the node', async () => {
+        (await nonceManager.reserve(worker)).commit();
+        pendingCount = 10;
+        expect((await nonceManager.reserve(worker)).nonce).to.be.equal(10);
+        // the node has not seen our latest broadcast yet
+        pendingCount = 4;
+        expect((await nonceManager.reserve(worker)).nonce).to.be.equal(11);
+    });
+
+    it('should reuse released nonces and report the gaps', async () => {
+        const first = await nonceManager.reserve(worker);
+        const second = await nonceManager.reserve(worker);
+        const third = await nonceManager.reserve(worker);
+        first.commit();
+        second.release();
+        third.commit();
+        expect(await nonceManager.getGaps(worker)).to.be.deep.equal([5]);
+        const refill = await nonceManager.reserve(worker);
+        expect(refill.nonce).to.be.equal(5);
+        refill.commit();
+        expect(await nonceManager.getGaps(worker)).to.be.deep.equal([]);
+        expect((await nonceManager.reserve(worker)).nonce).to.be.equal(7);
+    });
+
+    it('should hand out again a released nonce at the top', async () => {
+        const first = await nonceManager.reserve(worker);
+        first.release();
+        expect((await nonceManager.reserve(worker)).nonce).to.be.equal(4);
+        expect(await nonceManager.getGaps(worker)).to.be.deep.equal([]);
+    });
+
+    it('should settle a reservation only once', async () => {
+        const reservation = await nonceManager.reserve(worker);
+        reservation.commit();
+        expect(() => reservation.release()).to.throw(
+            'is already committed or released'
+        );
+    });
+
+    it('should honor the relayMaxNonce of the request', async () => {
+        expect(await nonceManager.getRelayMaxNonce(worker)).to.be.equal(7);
+        expect(await nonceManager.canHonorRelayMaxNonce(worker, 4)).to.be.true;
+        (await nonceManager.reserve(worker, 4)).commit();
+        expect(await nonceManager.canHonorRelayMaxNonce(worker, 4)).to.be.false;
+        await expect(nonceManager.reserve(worker, 4)).to.be.rejectedWith(
+            RelayMaxNonceError
+        );
+        // a failed reservation does not take the nonce nor block the next ones
+        expect((await nonceManager.reserve(worker, 5)).nonce).to.be.equal(5);
+    });
+
+    it('should start again from the node after a reset', async () => {
+        (await nonceManager.reserve(worker)).commit();
+        (await nonceManager.reserve(worker)).commit();
+        await nonceManager.reset(worker);
+        expect((await nonceManager.reserve(worker)).nonce).to.be.equal(4);
+    });
+});
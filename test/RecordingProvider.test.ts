@@ -0,0 +1,200 @@
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { HttpProvider } from 'web3-core';
+import { JsonRpcPayload } from 'web3-core-helpers';
+import {
+    ContractInteractor,
+    defaultEnvelopingConfig,
+    loadRecording,
+    Recording,
+    RecordingProvider,
+    ReplayProvider,
+    UnmatchedRequestsError
+} from '../src';
+import { request, StandInProvider } from './StandInProvider';
+
+use(chaiAsPromised);
+
+const contract = '0x1111111111111111111111111111111111111111';
+
+/**
+ * A node stand-in whose block number grows on every read
+ */
+function standIn(): StandInProvider {
+    let blockNumber = 10;
+    return new StandInProvider(({ method }) => {
+        switch (method) {
+            case 'eth_blockNumber':
+                return { result: '0x' + (blockNumber++).toString(16) };
+            case 'eth_sendRawTransaction':
+                return new Error('CONNECTION ERROR: ECONNRESET');
+            default:
+                return { result: '0x6080' };
+        }
+    });
+}
+
+describe('RecordingProvider', () => {
+    let recorder: RecordingProvider;
+    let recording: Recording;
+
+    beforeEach(async () => {
+        recorder = new RecordingProvider(standIn() as unknown as HttpProvider);
+        await request(recorder, 'eth_blockNumber', []);
+        await request(recorder, 'eth_blockNumber', []);
+        await request(recorder, 'eth_getCode', [contract, 'latest']);
+        await expect(
+            request(recorder, 'eth_sendRawTransaction', ['0x01'])
+        ).to.be.rejectedWith('ECONNRESET');
+        recording = recorder.getRecording();
+    });
+
+    it('should record the requests and their outcome', () => {
+        expect(
+            recording.exchanges.map(
+                ({ request, response, error }) =>
+                    `${request.method}: ${response?.result ?? error}`
+            )
+        ).to.be.deep.equal([
+            'eth_blockNumber: 0xa',
+            'eth_blockNumber: 0xb',
+            'eth_getCode: 0x6080',
+            'eth_sendRawTransaction: CONNECTION ERROR: ECONNRESET'
+        ]);
+    });
+
+    it('should record the requests of batches one by one', async () => {
+        const batch: JsonRpcPayload[] = [
+            { jsonrpc: '2.0', method: 'eth_chainId', params: [], id: 5 },
+            { jsonrpc: '2.0', method: 'net_version', params: [], id: 6 }
+        ];
+        await new Promise((resolve) =>
+            recorder.send(batch as any, resolve as any)
+        );
+        expect(
+            recorder
+                .getRecording()
+                .exchanges.slice(-2)
+                .map(({ request, response }) => [request.id, response?.id])
+        ).to.be.deep.equal([
+            [5, 5],
+            [6, 6]
+        ]);
+    });
+
+    it('should save fixtures that can be loaded', () => {
+        const file = path.join(
+            fs.mkdtempSync(path.join(os.tmpdir(), 'recording-')),
+            'fixture.json'
+        );
+        recorder.save(file);
+        expect(loadRecording(file)).to.be.deep.equal(recording);
+    });
+
+    describe('ReplayProvider', () => {
+        it('should serve the recorded responses in order', async () => {
+            const replay = new ReplayProvider(recording);
+            const blockNumbers = [];
+            for (let i = 0; i < 3; i++) {
+                blockNumbers.push(
+                    (await request(replay, 'eth_blockNumber', [], 40 + i))
+                        .result
+                );
+            }
+            // the last one is served again once all were
+            expect(blockNumbers).to.be.deep.equal(['0xa', '0xb', '0xb']);
+            expect(
+                (await request(replay, 'eth_blockNumber', [], 43)).id
+            ).to.be.equal(43);
+            await expect(
+                request(replay, 'eth_sendRawTransaction', ['0x01'])
+            ).to.be.rejectedWith('ECONNRESET');
+            expect(replay.getUnused()).to.have.lengthOf(1);
+            replay.assertAllMatched();
+        });
+
+        it('should apply the configured matching', async () => {
+            const checksummed = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+            const exact = new ReplayProvider(recording, { matching: 'exact' });
+            await expect(
+                request(exact, 'eth_getCode', [contract, 'latest'], 2)
+            ).to.be.rejectedWith(UnmatchedRequestsError);
+
+            const normalized = new ReplayProvider(
+                {
+                    exchanges: [
+                        {
+                            request: {
+                                jsonrpc: '2.0',
+                                method: 'eth_call',
+                                params: [
+                                    { to: checksummed, from: null },
+                                    'latest'
+                                ],
+                                id: 1
+                            },
+                            response: { jsonrpc: '2.0', id: 1, result: '0x' }
+                        }
+                    ]
+                },
+                { matching: 'normalized' }
+            );
+            expect(
+                (
+                    await request(normalized, 'eth_call', [
+                        { to: checksummed.toLowerCase() },
+                        'latest'
+                    ])
+                ).result
+            ).to.be.equal('0x');
+        });
+
+        it('should report the requests without a match', async () => {
+            const replay = new ReplayProvider(recording);
+            await expect(
+                request(replay, 'eth_getCode', [contract, '0x1'])
+            ).to.be.rejectedWith(UnmatchedRequestsError);
+            expect(
+                replay.getUnmatched().map(({ method }) => method)
+            ).to.be.deep.equal(['eth_getCode']);
+            expect(() => replay.assertAllMatched()).to.throw(
+                /No recorded response for 1 request\(s\):\n {2}- eth_getCode \["0x1{40}","0x1"\]/
+            );
+        });
+
+        it('should not serve the exchanges of unmatched batches', async () => {
+            const replay = new ReplayProvider(recording);
+            const batch: JsonRpcPayload[] = [
+                {
+                    jsonrpc: '2.0',
+                    method: 'eth_blockNumber',
+                    params: [],
+                    id: 1
+                },
+                { jsonrpc: '2.0', method: 'eth_getCode', params: [], id: 2 }
+            ];
+            const error = await new Promise((resolve) =>
+                replay.send(batch as any, resolve as any)
+            );
+            expect(error).to.be.instanceOf(UnmatchedRequestsError);
+            expect(
+                replay.getUnmatched().map(({ method }) => method)
+            ).to.be.deep.equal(['eth_getCode']);
+            expect(
+                (await request(replay, 'eth_blockNumber', [])).result
+            ).to.be.equal('0xa');
+        });
+
+        it('should replay ContractInteractor reads without a node', async () => {
+            const interactor = new ContractInteractor(
+                new ReplayProvider(recording),
+                defaultEnvelopingConfig
+            );
+            expect(await interactor.getCode(contract)).to.be.equal('0x6080');
+            expect(await interactor.getBlockNumber()).to.be.equal(10);
+        });
+    });
+});
@@ -0,0 +1,87 @@
+import { expect } from 'chai';
+import { Transaction } from 'web3-core';
+import { DeployRequest, RelayRequest } from '@rsksmart/rif-relay-contracts';
+import { abiHubCallEncoder, decodeHubCall, decodeHubTransaction } from '../src';
+
+const relayRequest: RelayRequest = {
+    request: {
+        relayHub: '0x3333333333333333333333333333333333333333',
+        from: '0x4444444444444444444444444444444444444444',
+        to: '0x5555555555555555555555555555555555555555',
+        tokenContract: '0x2222222222222222222222222222222222222222',
+        value: '0',
+        gas: '40000',
+        nonce: '3',
+        tokenAmount: '1000000000000000000',
+        tokenGas: '30000',
+        validUntilTime: '1600000000',
+        data: '0xa9059cbb'
+    },
+    relayData: {
+        gasPrice: '60000000',
+        feesReceiver: '0x6666666666666666666666666666666666666666',
+        callForwarder: '0x7777777777777777777777777777777777777777',
+        callVerifier: '0x8888888888888888888888888888888888888888'
+    }
+};
+const deployRequest: DeployRequest = {
+    request: {
+        relayHub: '0x3333333333333333333333333333333333333333',
+        from: '0x4444444444444444444444444444444444444444',
+        to: '0x0000000000000000000000000000000000000000',
+        tokenContract: '0x2222222222222222222222222222222222222222',
+        recoverer: '0x0000000000000000000000000000000000000000',
+        value: '0',
+        nonce: '0',
+        tokenAmount: '0',
+        tokenGas: '0',
+        validUntilTime: '0',
+        index: '1',
+        data: '0x'
+    },
+    relayData: relayRequest.relayData
+};
+const signature = '0x' + 'ab'.repeat(65);
+
+describe('RelayHubCalldata', () => {
+    it('should decode what the encoder produces', () => {
+        expect(
+            decodeHubCall(
+                abiHubCallEncoder.encodeRelayCall(relayRequest, signature)
+            )
+        ).to.be.deep.equal({ method: 'relayCall', relayRequest, signature });
+        expect(
+            decodeHubCall(
+                abiHubCallEncoder.encodeDeployCall(deployRequest, signature)
+            )
+        ).to.be.deep.equal({ method: 'deployCall', deployRequest, signature });
+    });
+
+    it('should fail on other calls', () => {
+        expect(() => decodeHubCall('0xa9059cbb' + '00'.repeat(64))).to.throw(
+            'Calldata with selector 0xa9059cbb is not a relayCall or deployCall'
+        );
+    });
+
+    it('should decode a fetched transaction', () => {
+        const transaction = {
+            hash: '0x' + '01'.repeat(32),
+            from: '0x9999999999999999999999999999999999999999',
+            to: relayRequest.request.relayHub,
+            nonce: 5,
+            gas: 300000,
+            gasPrice: '60000000',
+            blockNumber: 12,
+            input: abiHubCallEncoder.encodeRelayCall(relayRequest, signature)
+        } as Transaction;
+        const decoded = decodeHubTransaction(transaction);
+        expect(decoded).to.include({
+            transactionHash: transaction.hash,
+            relayWorker: transaction.from,
+            relayHub: relayRequest.request.relayHub,
+            nonce: 5,
+            blockNumber: 12
+        });
+        expect(decoded.call.method).to.be.equal('relayCall');
+    });
+});
@@ -0,0 +1,168 @@
+import { expect } from 'chai';
+import web3Abi, { AbiCoder } from 'web3-eth-abi';
+import { Log } from 'web3-core';
+import { EventData } from 'web3-eth-contract';
+import {
+    decodeHubEvent,
+    decodeHubEvents,
+    decodeHubLogs,
+    RelayServerRegistered,
+    RelayWorkersAdded,
+    StakeAdded,
+    TransactionRelayed
+} from '../src';
+
+const manager = '0x8f4e3d6d4d46b0b7a5f1c8e1f4a9f6e2b3c4d5e6';
+const checksummedManager = '0x8f4E3d6d4d46B0b7a5F1C8e1F4A9F6e2B3c4D5E6';
+const worker = '0x1e6a2d9e63f6a4b1d1e10c5b3a2c4f9e8d7b6a5c';
+const hub = '0xE0825f57Dd05Ef62FF731c27222A86E104CC4Cad';
+
+const abi = web3Abi as unknown as AbiCoder;
+
+function fakeEvent(event: string, returnValues: any): EventData {
+    return {
+        event,
+        returnValues,
+        address: '0xE0825f57Dd05Ef62FF731c27222A86E104CC4Cad',
+        blockNumber: 10,
+        blockHash: '0xblock',
+        transactionHash: '0xtx',
+        transactionIndex: 1,
+        logIndex: 2,
+        raw: { data: '0x', topics: [] },
+        signature: ''
+    };
+}
+
+describe('RelayHubEvents', () => {
+    describe('decodeHubEvent', () => {
+        it('should decode RelayServerRegistered', () => {
+            const decoded = decodeHubEvent(
+                fakeEvent(RelayServerRegistered, {
+                    relayManager: manager,
+                    relayUrl: 'http://localhost:8090'
+                })
+            );
+            expect(decoded).to.include({
+                event: RelayServerRegistered,
+                relayManager: checksummedManager,
+                relayUrl: 'http://localhost:8090',
+                blockNumber: 10,
+                transactionHash: '0xtx',
+                logIndex: 2
+            });
+        });
+
+        it('should decode RelayWorkersAdded with checksummed workers', () => {
+            const decoded = decodeHubEvent(
+                fakeEvent(RelayWorkersAdded, {
+                    relayManager: manager,
+                    newRelayWorkers: [worker],
+                    workersCount: '1'
+                })
+            );
+            if (decoded.event !== RelayWorkersAdded) {
+                expect.fail(`unexpected event ${decoded.event}`);
+            }
+            expect(decoded.newRelayWorkers).to.be.deep.equal([
+                '0x1E6a2D9E63f6A4b1d1E10c5B3A2C4f9e8D7b6A5C'
+            ]);
+            expect(decoded.workersCount).to.be.equal(1);
+        });
+
+        it('should decode StakeAdded amounts as BN', () => {
+            const decoded = decodeHubEvent(
+                fakeEvent(StakeAdded, {
+                    relayManager: manager,
+                    owner: worker,
+                    stake: '1000000000000000000',
+                    unstakeDelay: '1000'
+                })
+            );
+            if (decoded.event !== StakeAdded) {
+                expect.fail(`unexpected event ${decoded.event}`);
+            }
+            expect(decoded.stake.toString()).to.be.equal('1000000000000000000');
+            expect(decoded.unstakeDelay).to.be.equal(1000);
+        });
+
+        it('should fail on a missing value', () => {
+            expect(() =>
+                decodeHubEvent(
+                    fakeEvent(TransactionRelayed, {
+                        relayManager: manager,
+                        relayWorker: worker
+                    })
+                )
+            ).to.throw("missing the 'relayRequestSigHash' value");
+        });
+
+        it('should fail on an unknown event', () => {
+            expect(() => decodeHubEvent(fakeEvent('Unknown', {}))).to.throw(
+                'Unknown RelayHub event: Unknown'
+            );
+        });
+    });
+
+    describe('decodeHubEvents', () => {
+        it('should skip events that are not modeled', () => {
+            const decoded = decodeHubEvents([
+                fakeEvent('TransactionResult', { returnValue: '0x' }),
+                fakeEvent(RelayServerRegistered, {
+                    relayManager: manager,
+                    relayUrl: 'http://localhost:8090'
+                })
+            ]);
+            expect(decoded.map((event) => event.event)).to.be.deep.equal([
+                RelayServerRegistered
+            ]);
+        });
+    });
+
+    describe('decodeHubLogs', () => {
+        const sigHash = '0x' + '12'.repeat(32);
+        const transactionRelayedLog: Log = {
+            address: hub,
+            topics: [
+                abi.encodeEventSignature(
+                    'TransactionRelayed(address,address,bytes32,bytes)'
+                ),
+                abi.encodeParameter('address', manager)
+            ],
+            data: abi.encodeParameters(
+                ['address', 'bytes32', 'bytes'],
+                [worker, sigHash, '0x01']
+            ),
+            blockNumber: 10,
+            blockHash: '0xblock',
+            transactionHash: '0xtx',
+            transactionIndex: 1,
+            logIndex: 2
+        };
+
+        it('should decode the hub logs of a receipt', () => {
+            const [decoded] = decodeHubLogs([transactionRelayedLog], hub);
+            expect(decoded).to.deep.include({
+                event: TransactionRelayed,
+                relayManager: checksummedManager,
+                relayRequestSigHash: sigHash,
+                relayedCallReturnValue: '0x01',
+                logIndex: 2
+            });
+        });
+
+        it('should skip unknown logs and other addresses', () => {
+            expect(
+                decodeHubLogs([
+                    {
+                        ...transactionRelayedLog,
+                        topics: ['0x' + '00'.repeat(32)]
+                    }
+                ])
+            ).to.be.deep.equal([]);
+            expect(
+                decodeHubLogs([transactionRelayedLog], worker)
+            ).to.be.deep.equal([]);
+        });
+    });
+});
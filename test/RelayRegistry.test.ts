@@ -0,0 +1,222 @@
+import sinon, { stubInterface } from 'ts-sinon';
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import sinonChai from 'sinon-chai';
+import { RelayManagerData } from '@rsksmart/rif-relay-contracts';
+import {
+    ContractInteractor,
+    RelayHubEvent,
+    RelayRegistry,
+    RelayRegistryConfig,
+    RelayServerRegistered,
+    StakeUnlocked
+} from '../src';
+
+use(sinonChai);
+use(chaiAsPromised);
+
+const managerA = '0x1111111111111111111111111111111111111111';
+const managerB = '0x2222222222222222222222222222222222222222';
+const managerC = '0x3333333333333333333333333333333333333333';
+
+function registeredEvent(
+    relayManager: string,
+    relayUrl: string,
+    blockNumber: number
+): RelayHubEvent {
+    return {
+        event: RelayServerRegistered,
+        relayManager,
+        relayUrl,
+        blockNumber,
+        address: '0x0',
+        blockHash: '0x0',
+        transactionHash: '0x0',
+        transactionIndex: 0,
+        logIndex: 0
+    };
+}
+
+describe('RelayRegistry', () => {
+    const config: RelayRegistryConfig = {
+        preferredRelays: ['https://preferred.relay/'],
+        onlyPreferredRelays: false,
+        relayLookupWindowBlocks: 1000
+    };
+    let contractInteractor: sinon.SinonStubbedInstance<ContractInteractor> &
+        ContractInteractor;
+    let relayInfo: Map<string, RelayManagerData>;
+
+    beforeEach(function () {
+        relayInfo = new Map([
+            [
+                managerA,
+                {
+                    manager: managerA,
+                    url: 'https://a.relay',
+                    registered: true,
+                    currentlyStaked: true
+                }
+            ],
+            [
+                managerB,
+                {
+                    manager: managerB,
+                    url: 'https://preferred.relay',
+                    registered: true,
+                    currentlyStaked: true
+                }
+            ],
+            [
+                managerC,
+                {
+                    manager: managerC,
+                    url: 'https://c.relay',
+                    registered: true,
+                    currentlyStaked: false
+                }
+            ]
+        ]);
+        contractInteractor = stubInterface<ContractInteractor>();
+        contractInteractor.getBlockNumber.resolves(5000);
+        contractInteractor.getRelayInfo.callsFake((managers: Set<string>) =>
+            Promise.resolve(
+                Array.from(managers).map(
+                    (manager) => relayInfo.get(manager) as RelayManagerData
+                )
+            )
+        );
+        contractInteractor.getTypedPastEventsForHub.resolves([
+            registeredEvent(managerA, 'https://a.relay', 4100),
+            registeredEvent(managerB, 'https://preferred.relay', 4000),
+            registeredEvent(managerC, 'https://c.relay', 4200)
+        ]);
+    });
+
+    afterEach(function () {
+        sinon.restore();
+    });
+
+    it('should scan the lookup window on the first refresh', async () => {
+        const registry = new RelayRegistry(contractInteractor, config);
+        await registry.refresh();
+        expect(
+            contractInteractor.getTypedPastEventsForHub.firstCall.args[1]
+        ).to.be.deep.equal({ fromBlock: 4000, toBlock: 5000 });
+        expect(registry.size).to.be.equal(3);
+        expect(registry.lastBlock).to.be.equal(5000);
+    });
+
+    it('should only scan new blocks and re-read touched managers', async () => {
+        const registry = new RelayRegistry(contractInteractor, config);
+        await registry.refresh();
+        contractInteractor.getBlockNumber.resolves(5010);
+        contractInteractor.getTypedPastEventsForHub.resolves([
+            {
+                event: StakeUnlocked,
+                relayManager: managerA,
+                owner: managerC,
+                withdrawBlock: 6000,
+                blockNumber: 5005,
+                address: '0x0',
+                blockHash: '0x0',
+                transactionHash: '0x0',
+                transactionIndex: 0,
+                logIndex: 0
+            }
+        ]);
+        relayInfo.set(managerA, {
+            ...(relayInfo.get(managerA) as RelayManagerData),
+            currentlyStaked: false
+        });
+        await registry.refresh();
+
+        expect(
+            contractInteractor.getTypedPastEventsForHub.secondCall.args[1]
+        ).to.be.deep.equal({ fromBlock: 5001, toBlock: 5010 });
+        expect(
+            Array.from(contractInteractor.getRelayInfo.secondCall.args[0])
+        ).to.be.deep.equal([managerA]);
+        expect(registry.getRelay(managerA)?.currentlyStaked).to.be.false;
+        expect(registry.getRelay(managerA)?.lastEventBlock).to.be.equal(5005);
+    });
+
+    it('should not query the hub when there are no new blocks', async () => {
+        const registry = new RelayRegistry(contractInteractor, config);
+        await registry.refresh();
+        await registry.refresh();
+        expect(contractInteractor.getTypedPastEventsForHub).to.have.been
+            .calledOnce;
+    });
+
+    describe('getRelays', () => {
+        let registry: RelayRegistry;
+
+        beforeEach(async function () {
+            registry = new RelayRegistry(contractInteractor, config);
+            await registry.refresh();
+        });
+
+        it('should return active relays, preferred first', () => {
+            expect(
+                registry.getRelays().map((relay) => relay.manager)
+            ).to.be.deep.equal([managerB, managerA]);
+        });
+
+        it('should include inactive relays if requested', () => {
+            expect(
+                registry
+                    .getRelays({ includeInactive: true })
+                    .map((relay) => relay.manager)
+            ).to.be.deep.equal([managerB, managerC, managerA]);
+        });
+
+        it('should only return preferred relays', () => {
+            expect(
+                registry
+                    .getRelays({ onlyPreferred: true })
+                    .map((relay) => relay.manager)
+            ).to.be.deep.equal([managerB]);
+        });
+
+        it('should filter by url and predicate', () => {
+            expect(
+                registry.getRelays({ urls: ['https://A.relay/'] })
+            ).to.have.length(1);
+            expect(
+                registry.getRelays({
+                    predicate: (relay) => relay.url.includes('preferred')
+                })
+            ).to.have.length(1);
+        });
+    });
+
+    describe('getRelayUrls', () => {
+        it('should list preferred relays first without duplicates', async () => {
+            const registry = new RelayRegistry(contractInteractor, {
+                ...config,
+                preferredRelays: [
+                    'https://unknown.relay',
+                    ...config.preferredRelays
+                ]
+            });
+            await registry.refresh();
+            expect(registry.getRelayUrls()).to.be.deep.equal([
+                'https://unknown.relay',
+                'https://preferred.relay/',
+                'https://a.relay'
+            ]);
+        });
+
+        it('should only list preferred relays with onlyPreferredRelays', async () => {
+            const registry = new RelayRegistry(contractInteractor, {
+                ...config,
+                onlyPreferredRelays: true
+            });
+            await registry.refresh();
+            expect(registry.getRelayUrls()).to.be.deep.equal([
+                'https://preferred.relay/'
+            ]);
+        });
+    });
+});
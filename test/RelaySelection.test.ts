@@ -0,0 +1,155 @@
+import { expect } from 'chai';
+import {
+    PingResponse,
+    RelayCandidate,
+    RelayFailureHistory,
+    RelaySelector,
+    validatePingResponse,
+    VersionsManager
+} from '../src';
+
+const relayHubAddress = '0xE0825f57Dd05Ef62FF731c27222A86E104CC4Cad';
+const config = { relayHubAddress, chainId: 33 };
+
+function fakePing(overrides: Partial<PingResponse> = {}): PingResponse {
+    return {
+        relayWorkerAddress: '0x1111111111111111111111111111111111111111',
+        relayManagerAddress: '0x2222222222222222222222222222222222222222',
+        relayHubAddress: relayHubAddress.toLowerCase(),
+        feesReceiver: '0x3333333333333333333333333333333333333333',
+        minGasPrice: '60000000',
+        chainId: '33',
+        networkId: '33',
+        ready: true,
+        version: '2.0.1',
+        ...overrides
+    };
+}
+
+describe('RelaySelection', () => {
+    const versionsManager = new VersionsManager('2.0.1');
+
+    describe('validatePingResponse', () => {
+        it('should accept a valid ping', () => {
+            expect(
+                validatePingResponse(fakePing(), config, versionsManager)
+            ).to.be.deep.equal({ accepted: true });
+        });
+
+        const cases: Array<[string, Partial<PingResponse>, string]> = [
+            ['notReady', { ready: false }, 'is not ready'],
+            [
+                'hubMismatch',
+                {
+                    relayHubAddress:
+                        '0x4444444444444444444444444444444444444444'
+                },
+                'expected 0xE0825f57'
+            ],
+            ['chainMismatch', { chainId: '31' }, 'Relay is on chain 31'],
+            ['versionIncompatible', { version: '3.0.0' }, 'not compatible'],
+            [
+                'invalidResponse',
+                { relayWorkerAddress: undefined },
+                'missing required fields'
+            ],
+            [
+                'invalidResponse',
+                { feesReceiver: 'fees' },
+                'fees receiver fees is not an address'
+            ],
+            [
+                'invalidResponse',
+                { minGasPrice: '6e7' },
+                'minimum gas price 6e7 is not a number'
+            ]
+        ];
+        cases.forEach(([reason, overrides, message]) => {
+            it(`should reject with ${reason}: ${message}`, () => {
+                const validation = validatePingResponse(
+                    fakePing(overrides),
+                    config,
+                    versionsManager
+                );
+                expect(validation.accepted).to.be.false;
+                expect(validation.reason).to.be.equal(reason);
+                expect(validation.message).to.include(message);
+            });
+        });
+
+        it('should reject a relay asking for a higher gas price', () => {
+            const validation = validatePingResponse(
+                fakePing({ minGasPrice: '70000000' }),
+                config,
+                versionsManager,
+                '65000000'
+            );
+            expect(validation.reason).to.be.equal('gasPriceTooHigh');
+        });
+    });
+
+    describe('RelayFailureHistory', () => {
+        it('should forget failures outside the window', () => {
+            const history = new RelayFailureHistory(1000);
+            history.recordFailure('a', 0);
+            history.recordFailure('a', 500);
+            expect(history.getRecentFailures('a', 900)).to.be.equal(2);
+            expect(history.getRecentFailures('a', 1200)).to.be.equal(1);
+            expect(history.getRecentFailures('a', 1500)).to.be.equal(0);
+        });
+    });
+
+    describe('RelaySelector', () => {
+        const candidates: RelayCandidate[] = [
+            { url: 'https://a.relay', ping: fakePing() },
+            {
+                url: 'https://expensive.relay',
+                ping: fakePing({ minGasPrice: '120000000' })
+            },
+            {
+                url: 'https://preferred.relay',
+                ping: fakePing(),
+                preferred: true
+            },
+            { url: 'https://down.relay', ping: fakePing({ ready: false }) }
+        ];
+
+        it('should rank accepted relays and report rejected ones', () => {
+            const selector = new RelaySelector(config, versionsManager);
+            const selection = selector.selectRelays(candidates);
+            expect(
+                selection.accepted.map((ranked) => ranked.candidate.url)
+            ).to.be.deep.equal([
+                'https://preferred.relay',
+                'https://a.relay',
+                'https://expensive.relay'
+            ]);
+            expect(selection.rejected).to.have.length(1);
+            expect(selection.rejected[0]).to.include({
+                reason: 'notReady'
+            });
+        });
+
+        it('should deprioritize relays that failed recently', () => {
+            const selector = new RelaySelector(config, versionsManager);
+            selector.recordFailure('https://preferred.relay');
+            selector.recordFailure('https://preferred.relay');
+            const selection = selector.selectRelays(candidates);
+            expect(selection.accepted[0].candidate.url).to.be.equal(
+                'https://a.relay'
+            );
+        });
+
+        it('should use a custom scoring policy', () => {
+            const selector = new RelaySelector(config, versionsManager, {
+                scoringPolicy: {
+                    score: (candidate) => candidate.url.length
+                }
+            });
+            const selection = selector.selectRelays(candidates);
+            expect(selection.accepted[0].candidate.url).to.be.equal(
+                'https://expensive.relay'
+            );
+        });
+    });
+});
@@ -0,0 +1,232 @@
+import { expect } from 'chai';
+import { toChecksumAddress } from 'ethereumjs-util';
+import {
+    DeployTransactionRequest,
+    DeployTransactionRequestJsonSchema,
+    RelayTransactionRequest,
+    RelayTransactionRequestJsonSchema,
+    validateDeployTransactionRequest,
+    validateRelayTransactionRequest
+} from '../src';
+
+const hub = '0xE0825f57Dd05Ef62FF731c27222A86E104CC4Cad';
+const account = '0x66Fa9FEAfB8Db66Fe2160ca7aEAc7FC24e254387';
+const now = 1600000000;
+
+function relayTransactionRequest(): RelayTransactionRequest {
+    return {
+        relayRequest: {
+            request: {
+                relayHub: hub,
+                from: account,
+                to: account,
+                tokenContract: account,
+                value: '0',
+                gas: '0x5208',
+                nonce: '4',
+                tokenAmount: '1000000000000000000',
+                tokenGas: '50000',
+                validUntilTime: (now + 3600).toString(),
+                data: '0xa9059cbb'
+            },
+            relayData: {
+                gasPrice: '60000000',
+                feesReceiver: account,
+                callForwarder: account,
+                callVerifier: account
+            }
+        },
+        metadata: {
+            relayHubAddress: hub,
+            relayMaxNonce: 7,
+            signature: '0x' + '1b'.repeat(65)
+        }
+    };
+}
+
+function deployTransactionRequest(): DeployTransactionRequest {
+    const { relayRequest, metadata } = relayTransactionRequest();
+    const request: any = {
+        ...relayRequest.request,
+        recoverer: account,
+        index: '0'
+    };
+    delete request.gas;
+    return {
+        relayRequest: {
+            request,
+            relayData: relayRequest.relayData
+        },
+        metadata
+    };
+}
+
+describe('RequestValidator', () => {
+    it('should accept a valid relay request', () => {
+        expect(
+            validateRelayTransactionRequest(relayTransactionRequest(), { now })
+        ).to.be.deep.equal({ valid: true, violations: [] });
+    });
+
+    it('should accept a valid deploy request', () => {
+        expect(
+            validateDeployTransactionRequest(deployTransactionRequest(), {
+                now
+            }).violations
+        ).to.be.deep.equal([]);
+    });
+
+    it('should report every violation with its path', () => {
+        const request: any = relayTransactionRequest();
+        request.relayRequest.request.nonce = '-1';
+        request.relayRequest.request.value = 'abc';
+        request.relayRequest.request.from = account.toLowerCase().slice(0, 40);
+        request.relayRequest.request.to = account.replace('66Fa', '66fA');
+        request.relayRequest.request.data = '0x123';
+        request.relayRequest.relayData.gasPrice = '0x' + 'f'.repeat(65);
+        request.metadata.signature = '0x' + '1b'.repeat(64);
+        request.metadata.relayMaxNonce = -1;
+        delete request.relayRequest.request.tokenGas;
+        request.extra = true;
+        const { valid, violations } = validateRelayTransactionRequest(request, {
+            now
+        });
+        expect(valid).to.be.false;
+        expect(violations.map(({ path }) => path)).to.have.members([
+            'extra',
+            'relayRequest.request.from',
+            'relayRequest.request.to',
+            'relayRequest.request.value',
+            'relayRequest.request.nonce',
+            'relayRequest.request.tokenGas',
+            'relayRequest.request.data',
+            'relayRequest.relayData.gasPrice',
+            'metadata.relayMaxNonce',
+            'metadata.signature'
+        ]);
+        expect(
+            violations.find(({ path }) => path === 'relayRequest.request.to')
+                ?.message
+        ).to.be.equal('has an invalid checksum');
+        expect(
+            violations.find(
+                ({ path }) => path === 'relayRequest.relayData.gasPrice'
+            )?.message
+        ).to.be.equal('must fit in a uint256');
+    });
+
+    it('should check the relay hub of the metadata', () => {
+        const request = relayTransactionRequest();
+        request.metadata.relayHubAddress = account;
+        expect(
+            validateRelayTransactionRequest(request, { now }).violations
+        ).to.be.deep.equal([
+            {
+                path: 'metadata.relayHubAddress',
+                message: `does not match relayRequest.request.relayHub ${hub}`
+            }
+        ]);
+    });
+
+    it('should check validUntilTime against now', () => {
+        const request = relayTransactionRequest();
+        const validUntilTime = Number(
+            request.relayRequest.request.validUntilTime
+        );
+        const pathsAt = (time: number, maxValiditySeconds?: number) =>
+            validateRelayTransactionRequest(request, {
+                now: time,
+                maxValiditySeconds
+            }).violations.map(({ path }) => path);
+        expect(pathsAt(validUntilTime)).to.be.deep.equal([
+            'relayRequest.request.validUntilTime'
+        ]);
+        expect(pathsAt(now, 60)).to.be.deep.equal([
+            'relayRequest.request.validUntilTime'
+        ]);
+        expect(pathsAt(now, 3600)).to.be.deep.equal([]);
+        request.relayRequest.request.validUntilTime = '0';
+        expect(pathsAt(validUntilTime)).to.be.deep.equal([]);
+    });
+
+    it('should limit the data size', () => {
+        const request = relayTransactionRequest();
+        request.relayRequest.request.data = '0x' + '00'.repeat(11);
+        expect(
+            validateRelayTransactionRequest(request, { now, maxDataBytes: 10 })
+                .violations
+        ).to.be.deep.equal([
+            {
+                path: 'relayRequest.request.data',
+                message: 'is 11 bytes long, the maximum is 10'
+            }
+        ]);
+    });
+
+    it('should require checksummed addresses when asked', () => {
+        const request = relayTransactionRequest();
+        request.relayRequest.relayData.feesReceiver = account.toLowerCase();
+        expect(validateRelayTransactionRequest(request, { now }).valid).to.be
+            .true;
+        expect(
+            validateRelayTransactionRequest(request, {
+                now,
+                requireChecksum: true
+            }).violations
+        ).to.be.deep.equal([
+            {
+                path: 'relayRequest.relayData.feesReceiver',
+                message: 'must be checksummed'
+            }
+        ]);
+    });
+
+    it('should accept EIP-1191 checksummed addresses of the chain', () => {
+        const request = relayTransactionRequest();
+        request.relayRequest.relayData.feesReceiver = toChecksumAddress(
+            account,
+            30
+        );
+        expect(
+            validateRelayTransactionRequest(request, {
+                now,
+                requireChecksum: true
+            }).valid
+        ).to.be.true;
+        expect(
+            validateRelayTransactionRequest(request, {
+                now,
+                requireChecksum: true,
+                chainId: 30
+            }).valid
+        ).to.be.true;
+        expect(
+            validateRelayTransactionRequest(request, { now, chainId: 33 })
+                .violations
+        ).to.be.deep.equal([
+            {
+                path: 'relayRequest.relayData.feesReceiver',
+                message: 'has an invalid checksum'
+            }
+        ]);
+    });
+
+    it('should export the JSON schemas of both requests', () => {
+        const relayRequestSchema: any =
+            RelayTransactionRequestJsonSchema.properties;
+        const deployRequestSchema: any =
+            DeployTransactionRequestJsonSchema.properties;
+        expect(
+            relayRequestSchema.relayRequest.properties.request.required
+        ).to.include('gas');
+        expect(
+            deployRequestSchema.relayRequest.properties.request.required
+        ).to.include.members(['recoverer', 'index']);
+        expect(
+            deployRequestSchema.metadata.properties.signature.pattern
+        ).to.be.equal('^0x[0-9a-fA-F]{130}$');
+        expect(
+            JSON.parse(JSON.stringify(RelayTransactionRequestJsonSchema))
+        ).to.be.deep.equal(RelayTransactionRequestJsonSchema);
+    });
+});
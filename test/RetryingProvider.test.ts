@@ -0,0 +1,213 @@
+import { expect } from 'chai';
+import { HttpProvider } from 'web3-core';
+import { JsonRpcResponse } from 'web3-core-helpers';
+import { classifyRpcFailure, RetryingProvider } from '../src';
+import { request, StandInAnswer, StandInProvider } from './StandInProvider';
+
+async function requestIdempotent(
+    provider: RetryingProvider,
+    method: string
+): Promise<JsonRpcResponse> {
+    return await request(
+        {
+            send: (payload, callback) =>
+                provider.sendIdempotent(payload, callback)
+        },
+        method
+    );
+}
+
+describe('RetryingProvider', () => {
+    let node: StandInProvider;
+    let provider: RetryingProvider;
+    // given in order, then the requests succeed
+    let answers: StandInAnswer[];
+
+    beforeEach(() => {
+        answers = [];
+        node = new StandInProvider(() => answers.shift() ?? { result: 'ok' });
+        provider = new RetryingProvider(node as unknown as HttpProvider, {
+            defaultPolicy: {
+                retries: 3,
+                initialBackoffMs: 1,
+                maxBackoffMs: 4,
+                jitter: 0.5,
+                idempotent: true
+            },
+            rateLimitBackoffMs: 2,
+            budgetMs: 1000
+        });
+    });
+
+    describe('classifyRpcFailure', () => {
+        it('should recognize the transient failures', () => {
+            expect(
+                classifyRpcFailure(new Error('CONNECTION ERROR: ECONNRESET'))
+            ).to.be.equal('connection');
+            expect(
+                classifyRpcFailure(
+                    new Error('CONNECTION TIMEOUT: timeout of 10000 ms achived')
+                )
+            ).to.be.equal('timeout');
+            expect(
+                classifyRpcFailure(
+                    new Error(
+                        'Invalid JSON RPC response: "429 Too Many Requests"'
+                    )
+                )
+            ).to.be.equal('rateLimit');
+            expect(
+                classifyRpcFailure(null, {
+                    error: {
+                        code: -32005,
+                        message: 'daily request count exceeded'
+                    }
+                } as any)
+            ).to.be.equal('rateLimit');
+            expect(
+                classifyRpcFailure(null, {
+                    error: { code: -32000, message: 'request timed out' }
+                } as any)
+            ).to.be.equal('timeout');
+        });
+
+        it('should classify each response of a batch', () => {
+            expect(
+                classifyRpcFailure(null, [
+                    { result: '0x1' },
+                    { error: { code: -32000, message: 'request timed out' } },
+                    { error: { code: 429, message: 'Too Many Requests' } }
+                ] as any)
+            ).to.be.equal('rateLimit');
+            expect(
+                classifyRpcFailure(null, [
+                    { result: '0x1' },
+                    { error: { code: -32000, message: 'nonce too low' } }
+                ] as any)
+            ).to.be.undefined;
+        });
+
+        it('should not retry answers of the node', () => {
+            expect(classifyRpcFailure(null, { result: '0x1' } as any)).to.be
+                .undefined;
+            expect(
+                classifyRpcFailure(null, {
+                    error: { code: -32000, message: 'nonce too low' }
+                } as any)
+            ).to.be.undefined;
+        });
+    });
+
+    it('should retry transient failures', async () => {
+        answers = [
+            new Error('CONNECTION ERROR: ECONNRESET'),
+            { error: { code: 429, message: 'Too Many Requests' } }
+        ];
+        expect((await request(provider, 'eth_gasPrice')).result).to.be.equal(
+            'ok'
+        );
+        expect(node.calls).to.have.lengthOf(3);
+        expect(provider.retriesCount).to.be.equal(2);
+    });
+
+    it('should return the last failure once out of retries', async () => {
+        answers = Array(4).fill({
+            error: { code: -32005, message: 'rate limited' }
+        });
+        const response = await request(provider, 'eth_gasPrice');
+        expect(response.error).to.deep.include({ message: 'rate limited' });
+        expect(node.calls).to.have.lengthOf(4);
+    });
+
+    it('should not retry JSON-RPC errors', async () => {
+        answers = [{ error: { code: -32000, message: 'execution reverted' } }];
+        const response = await request(provider, 'eth_call');
+        expect(response.error).to.deep.include({
+            message: 'execution reverted'
+        });
+        expect(node.calls).to.have.lengthOf(1);
+    });
+
+    it('should not retry non-idempotent methods unless told to', async () => {
+        answers = [new Error('CONNECTION ERROR: ECONNRESET')];
+        try {
+            await request(provider, 'eth_sendRawTransaction');
+            expect.fail('should have failed');
+        } catch (e) {
+            expect((e as Error).message).to.include('ECONNRESET');
+        }
+        expect(node.calls).to.have.lengthOf(1);
+
+        answers = [new Error('CONNECTION ERROR: ECONNRESET')];
+        expect(
+            (await requestIdempotent(provider, 'eth_sendRawTransaction')).result
+        ).to.be.equal('ok');
+        expect(node.calls).to.have.lengthOf(3);
+    });
+
+    it('should not retry batches with non-idempotent methods', async () => {
+        answers = [new Error('CONNECTION ERROR: ECONNRESET')];
+        const batch = ['eth_getTransactionCount', 'eth_sendRawTransaction'].map(
+            (method, id) => ({ jsonrpc: '2.0', method, params: [], id })
+        );
+        const error = await new Promise((resolve) =>
+            provider.send(batch as any, resolve)
+        );
+        expect((error as Error).message).to.include('ECONNRESET');
+        expect(node.sent).to.have.lengthOf(1);
+    });
+
+    it('should retry batches with a rate-limited request', async () => {
+        answers = [
+            { result: '0x1' },
+            { error: { code: 429, message: 'Too Many Requests' } }
+        ];
+        const batch = ['eth_blockNumber', 'eth_gasPrice'].map((method, id) => ({
+            jsonrpc: '2.0',
+            method,
+            params: [],
+            id
+        }));
+        const response = await new Promise((resolve) =>
+            provider.send(batch as any, (_error, result) => resolve(result))
+        );
+        expect(response).to.be.deep.equal([
+            { jsonrpc: '2.0', id: 0, result: 'ok' },
+            { jsonrpc: '2.0', id: 1, result: 'ok' }
+        ]);
+        expect(node.sent).to.have.lengthOf(2);
+    });
+
+    it('should apply the method policies', async () => {
+        const noRetries = new RetryingProvider(
+            node as unknown as HttpProvider,
+            {
+                methodPolicies: { eth_getLogs: { retries: 0 } }
+            }
+        );
+        expect(noRetries.getPolicy('eth_getLogs').retries).to.be.equal(0);
+        expect(noRetries.getPolicy('eth_sendRawTransaction').idempotent).to.be
+            .false;
+        answers = [new Error('CONNECTION ERROR: ECONNRESET')];
+        try {
+            await request(noRetries, 'eth_getLogs');
+            expect.fail('should have failed');
+        } catch (e) {
+            expect((e as Error).message).to.include('ECONNRESET');
+        }
+    });
+
+    it('should enforce the time budget', async () => {
+        const budgeted = new RetryingProvider(node as unknown as HttpProvider, {
+            budgetMs: 50
+        });
+        answers = ['hang'];
+        try {
+            await request(budgeted, 'eth_gasPrice');
+            expect.fail('should have failed');
+        } catch (e) {
+            expect((e as Error).message).to.include('time budget of 50ms');
+        }
+        expect(node.calls).to.have.lengthOf(1);
+    });
+});
@@ -0,0 +1,309 @@
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import Web3 from 'web3';
+import sigUtil from 'eth-sig-util';
+import { Transaction } from 'ethereumjs-tx';
+import { RelayRequest } from '@rsksmart/rif-relay-contracts';
+import {
+    getRawTxOptions,
+    getRelayRequestTypedData,
+    InMemoryKeyService,
+    LocalKeySigner,
+    ProviderSigner,
+    recoverRelayRequestSigner,
+    RemoteKeySigner,
+    signRelayRequest,
+    TransactionDetails,
+    TypedDataSigningError
+} from '../src';
+
+use(chaiAsPromised);
+
+const privateKey = Buffer.from(
+    '0c06818f82e04c564290b32ab86b25676731fc34e9a546108bf109194c8e3aae',
+    'hex'
+);
+const chainId = 33;
+const rawTxOptions = getRawTxOptions(chainId, chainId);
+
+const localSigner = new LocalKeySigner(privateKey);
+let address: string;
+
+function relayRequest(): RelayRequest {
+    return {
+        request: {
+            relayHub: '0x3333333333333333333333333333333333333333',
+            from: address,
+            to: '0x5555555555555555555555555555555555555555',
+            tokenContract: '0x2222222222222222222222222222222222222222',
+            value: '0',
+            gas: '40000',
+            nonce: '0',
+            tokenAmount: '0',
+            tokenGas: '0',
+            validUntilTime: '0',
+            data: '0x'
+        },
+        relayData: {
+            gasPrice: '60000000',
+            feesReceiver: '0x6666666666666666666666666666666666666666',
+            callForwarder: '0x7777777777777777777777777777777777777777',
+            callVerifier: '0x8888888888888888888888888888888888888888'
+        }
+    };
+}
+
+const details = (): TransactionDetails => ({
+    from: address,
+    to: '0x5555555555555555555555555555555555555555',
+    nonce: 3,
+    gasLimit: '21000',
+    gasPrice: '60000000',
+    value: '1',
+    data: '0x'
+});
+
+/**
+ * A provider that only implements the given eth_signTypedData method
+ */
+function fakeProvider(supported: string, stringified: boolean): any {
+    const calls: string[] = [];
+    const senders: string[] = [];
+    return {
+        calls,
+        senders,
+        send(payload: any, callback: any) {
+            calls.push(payload.method);
+            senders.push(payload.params[0]);
+            const typedData = payload.params[1];
+            if (payload.method !== supported) {
+                callback(null, {
+                    id: payload.id,
+                    jsonrpc: '2.0',
+                    error: { code: -32601, message: 'Method not found' }
+                });
+            } else if ((typeof typedData === 'string') !== stringified) {
+                callback(null, {
+                    id: payload.id,
+                    jsonrpc: '2.0',
+                    error: { code: -32602, message: 'invalid params' }
+                });
+            } else {
+                callback(null, {
+                    id: payload.id,
+                    jsonrpc: '2.0',
+                    // @ts-ignore
+                    result: sigUtil.signTypedData_v4(privateKey, {
+                        data: stringified ? JSON.parse(typedData) : typedData
+                    })
+                });
+            }
+        }
+    };
+}
+
+describe('Signer', () => {
+    before(async () => {
+        address = await localSigner.getAddress();
+    });
+
+    describe('LocalKeySigner', () => {
+        it('should sign relay requests', async () => {
+            const request = relayRequest();
+            const signature = await signRelayRequest(
+                localSigner,
+                chainId,
+                undefined,
+                request
+            );
+            expect(
+                recoverRelayRequestSigner(
+                    chainId,
+                    undefined,
+                    request,
+                    signature
+                )
+            ).to.be.equal(address);
+        });
+
+        it('should sign raw transactions for the chain', async () => {
+            const rawTx = await localSigner.signTransaction(
+                details(),
+                rawTxOptions
+            );
+            const tx = new Transaction(rawTx, rawTxOptions);
+            expect(tx.verifySignature()).to.be.true;
+            expect(tx.getChainId()).to.be.equal(chainId);
+            expect(
+                Web3.utils.toChecksumAddress(
+                    '0x' + tx.getSenderAddress().toString('hex')
+                )
+            ).to.be.equal(address);
+        });
+    });
+
+    describe('RemoteKeySigner', () => {
+        const service = new InMemoryKeyService();
+        service.addKey('worker', privateKey);
+        const remoteSigner = new RemoteKeySigner(service, 'worker');
+
+        it('should sign as the key it stands for', async () => {
+            expect(await remoteSigner.getAddress()).to.be.equal(address);
+            const typedData = getRelayRequestTypedData(
+                chainId,
+                undefined,
+                relayRequest()
+            );
+            expect(await remoteSigner.signTypedData(typedData)).to.be.equal(
+                await localSigner.signTypedData(typedData)
+            );
+            expect(
+                await remoteSigner.signTransaction(details(), rawTxOptions)
+            ).to.be.equal(
+                await localSigner.signTransaction(details(), rawTxOptions)
+            );
+        });
+
+        it('should fail on unknown keys', async () => {
+            await expect(
+                new RemoteKeySigner(service, 'other').getAddress()
+            ).to.be.rejectedWith('Unknown key other');
+        });
+    });
+
+    describe('ProviderSigner', () => {
+        it('should detect the eth_signTypedData variant and keep it', async () => {
+            const provider = fakeProvider('eth_signTypedData_v3', true);
+            const signer = new ProviderSigner(new Web3(provider), address);
+            const typedData = getRelayRequestTypedData(
+                chainId,
+                undefined,
+                relayRequest()
+            );
+            const signature = await signer.signTypedData(typedData);
+            expect(signature).to.be.equal(
+                await localSigner.signTypedData(typedData)
+            );
+            expect(provider.calls).to.be.deep.equal([
+                'eth_signTypedData_v4',
+                'eth_signTypedData_v4',
+                'eth_signTypedData_v3'
+            ]);
+            await signer.signTypedData(typedData);
+            expect(provider.calls).to.have.lengthOf(4);
+        });
+
+        it('should use the configured variant', async () => {
+            const provider = fakeProvider('eth_signTypedData', false);
+            const signer = new ProviderSigner(new Web3(provider), address, {
+                methodSuffix: '',
+                jsonStringifyRequest: false
+            });
+            await signer.signTypedData(
+                getRelayRequestTypedData(chainId, undefined, relayRequest())
+            );
+            expect(provider.calls).to.be.deep.equal(['eth_signTypedData']);
+        });
+
+        it('should sign as its own address', async () => {
+            const provider = fakeProvider('eth_signTypedData_v4', false);
+            const signer = new ProviderSigner(new Web3(provider), address);
+            const typedData = getRelayRequestTypedData(chainId, undefined, {
+                ...relayRequest(),
+                request: {
+                    ...relayRequest().request,
+                    from: '0x9999999999999999999999999999999999999999'
+                }
+            });
+            await signer.signTypedData(typedData);
+            expect(provider.senders).to.be.deep.equal([address]);
+        });
+
+        it('should not take invalid params for an unsupported variant', async () => {
+            const calls: string[] = [];
+            const signer = new ProviderSigner(
+                new Web3({
+                    send(payload: any, callback: any) {
+                        calls.push(payload.method);
+                        callback(null, {
+                            id: payload.id,
+                            jsonrpc: '2.0',
+                            error: {
+                                code: -32602,
+                                message: 'invalid params: missing types'
+                            }
+                        });
+                    }
+                } as any),
+                address
+            );
+            const rejection = await expect(
+                signer.signTypedData(
+                    getRelayRequestTypedData(chainId, undefined, relayRequest())
+                )
+            ).to.be.rejectedWith(TypedDataSigningError, 'missing types');
+            expect(rejection.code).to.be.equal(-32602);
+            expect(calls).to.have.lengthOf(1);
+        });
+
+        it('should sign raw transactions through the node', async () => {
+            const signed = await localSigner.signTransaction(
+                details(),
+                rawTxOptions
+            );
+            const requests: any[] = [];
+            const answers = [{ raw: signed, tx: {} }, signed];
+            const signer = new ProviderSigner(
+                new Web3({
+                    send(payload: any, callback: any) {
+                        requests.push(payload);
+                        callback(null, {
+                            id: payload.id,
+                            jsonrpc: '2.0',
+                            result: answers[requests.length - 1]
+                        });
+                    }
+                } as any),
+                address
+            );
+            // geth answers { raw, tx }, ganache the raw transaction
+            for (let i = 0; i < 2; i++) {
+                expect(
+                    await signer.signTransaction(details(), rawTxOptions)
+                ).to.be.equal(signed);
+            }
+            expect(requests[0].method).to.be.equal('eth_signTransaction');
+            expect(requests[0].params[0]).to.include({
+                from: address.toLowerCase(),
+                to: details().to,
+                nonce: '0x3',
+                gas: '0x5208',
+                value: '0x1',
+                chainId: '0x21'
+            });
+        });
+
+        it('should not hide other errors', async () => {
+            const signer = new ProviderSigner(
+                new Web3({
+                    send(payload: any, callback: any) {
+                        callback(null, {
+                            id: payload.id,
+                            jsonrpc: '2.0',
+                            error: {
+                                code: 4001,
+                                message: 'User denied message signature'
+                            }
+                        });
+                    }
+                } as any),
+                address
+            );
+            await expect(
+                signer.signTypedData(
+                    getRelayRequestTypedData(chainId, undefined, relayRequest())
+                )
+            ).to.be.rejectedWith('User denied message signature');
+        });
+    });
+});
@@ -0,0 +1,156 @@
+import { JsonRpcPayload, JsonRpcResponse } from 'web3-core-helpers';
+import { SendCallback } from '../src';
+
+/**
+ * How a {@link StandInProvider} answers a request: with a result, a JSON-RPC error,
+ * a transport error, or not at all
+ */
+export type StandInAnswer =
+    | { result: unknown }
+    | { error: { code: number; message: string } }
+    | Error
+    | 'hang';
+
+type AnsweredResponse = Exclude<StandInAnswer, Error | 'hang'>;
+
+/**
+ * A node stand-in for the provider tests, answering each request with `answer`.
+ * The requests of a batch are answered one by one.
+ */
+export class StandInProvider {
+    /**
+     * The payloads in the order they were sent, a batch as one
+     */
+    sent: Array<JsonRpcPayload | JsonRpcPayload[]> = [];
+    supportsBatches = true;
+    /**
+     * Requests of a batch that get a response, the others are left out
+     */
+    batchLimit = Infinity;
+    /**
+     * Larger batches are rejected as a whole with a JSON-RPC error
+     */
+    maxBatchSize = Infinity;
+    /**
+     * Fails every request with a connection error
+     */
+    down = false;
+
+    constructor(
+        public answer: (payload: JsonRpcPayload) => StandInAnswer = () => ({
+            result: '0x1'
+        }),
+        readonly host = 'stand-in'
+    ) {}
+
+    /**
+     * The methods requested, those of the batches included
+     */
+    get calls(): string[] {
+        return ([] as JsonRpcPayload[])
+            .concat(...this.sent)
+            .map(({ method }) => method);
+    }
+
+    get connected(): boolean {
+        return !this.down;
+    }
+
+    send(
+        payload: any,
+        callback: (error: Error | null, result?: any) => void
+    ): void {
+        this.sent.push(payload);
+        if (this.down) {
+            callback(new Error(`CONNECTION ERROR: ${this.host} is down`));
+            return;
+        }
+        if (!Array.isArray(payload)) {
+            const answer = this.answer(payload);
+            if (answer === 'hang') {
+                return;
+            }
+            if (answer instanceof Error) {
+                callback(answer);
+                return;
+            }
+            callback(null, this._respond(payload, answer));
+            return;
+        }
+        if (!this.supportsBatches) {
+            callback(null, {
+                jsonrpc: '2.0',
+                id: null,
+                error: { code: -32600, message: 'batch requests not supported' }
+            });
+            return;
+        }
+        if (payload.length > this.maxBatchSize) {
+            callback(null, {
+                jsonrpc: '2.0',
+                id: null,
+                error: {
+                    code: -32600,
+                    message: `batch of ${payload.length} requests is over the limit of ${this.maxBatchSize}`
+                }
+            });
+            return;
+        }
+        const answers = payload
+            .slice(0, this.batchLimit)
+            .map((item: JsonRpcPayload) => ({
+                item,
+                answer: this.answer(item)
+            }));
+        if (answers.some(({ answer }) => answer === 'hang')) {
+            return;
+        }
+        const failed = answers.find(({ answer }) => answer instanceof Error);
+        if (failed != null) {
+            callback(failed.answer as Error);
+            return;
+        }
+        callback(
+            null,
+            answers.map(({ item, answer }) =>
+                this._respond(item, answer as AnsweredResponse)
+            )
+        );
+    }
+
+    disconnect(): boolean {
+        return true;
+    }
+
+    supportsSubscriptions(): boolean {
+        return false;
+    }
+
+    _respond(
+        payload: JsonRpcPayload,
+        answer: AnsweredResponse
+    ): JsonRpcResponse {
+        return {
+            jsonrpc: '2.0',
+            id: payload.id as number,
+            ...answer
+        } as JsonRpcResponse;
+    }
+}
+
+/**
+ * Sends one request through the provider
+ * @throws the transport error, if any
+ */
+export async function request(
+    provider: { send(payload: JsonRpcPayload, callback: SendCallback): void },
+    method: string,
+    params: unknown[] = [],
+    id = 1
+): Promise<JsonRpcResponse> {
+    return await new Promise((resolve, reject) =>
+        provider.send({ jsonrpc: '2.0', method, params, id }, (error, result) =>
+            error != null || result == null ? reject(error) : resolve(result)
+        )
+    );
+}
@@ -0,0 +1,327 @@
+import sinon, { stubInterface } from 'ts-sinon';
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import sinonChai from 'sinon-chai';
+import { Transaction } from 'ethereumjs-tx';
+import { bufferToHex, privateToAddress } from 'ethereumjs-util';
+import { toChecksumAddress, toHex } from 'web3-utils';
+import {
+    ContractInteractor,
+    EnvelopingConfig,
+    getRawTxOptions,
+    LocalKeySigner,
+    TrackedTransaction,
+    TransactionDetails,
+    TransactionTracker,
+    Web3Provider
+} from '../src';
+
+use(sinonChai);
+use(chaiAsPromised);
+
+const privateKey = Buffer.from(
+    '0c06818f82e04c564290b32ab86b25676731fc34e9a546108bf109194c8e3aae',
+    'hex'
+);
+const from = toChecksumAddress(bufferToHex(privateToAddress(privateKey)));
+const rawTxOptions = getRawTxOptions(33, 33);
+
+function sign(details: Omit<TransactionDetails, 'from'>): string {
+    const tx = new Transaction(
+        {
+            nonce: toHex(details.nonce),
+            gasLimit: toHex(details.gasLimit),
+            gasPrice: toHex(details.gasPrice),
+            to: details.to,
+            value: toHex(details.value),
+            data: details.data
+        },
+        rawTxOptions
+    );
+    tx.sign(privateKey);
+    return '0x' + tx.serialize().toString('hex');
+}
+
+const signer = new LocalKeySigner(privateKey);
+
+const unsigned = {
+    to: '0x5555555555555555555555555555555555555555',
+    nonce: 7,
+    gasLimit: '21000',
+    gasPrice: '60000000',
+    value: '0',
+    data: '0x'
+};
+
+describe('TransactionTracker', () => {
+    let contractInteractor: ContractInteractor;
+    let tracker: TransactionTracker;
+    let blockNumber: number;
+    let accountNonce: number;
+    let receipts: Map<string, any>;
+    let broadcastTransaction: sinon.SinonStub;
+    const events: Array<[string, TrackedTransaction]> = [];
+
+    beforeEach(() => {
+        contractInteractor = new ContractInteractor(
+            stubInterface<Web3Provider>(),
+            { chainId: 33 } as EnvelopingConfig
+        );
+        sinon.stub(contractInteractor, 'getRawTxOptions').returns(rawTxOptions);
+        blockNumber = 100;
+        accountNonce = 7;
+        receipts = new Map();
+        broadcastTransaction = sinon
+            .stub(contractInteractor, 'broadcastTransaction')
+            .callsFake(
+                async (rawTx) =>
+                    '0x' +
+                    new Transaction(rawTx, rawTxOptions).hash().toString('hex')
+            );
+        sinon
+            .stub(contractInteractor, 'getBlockNumber')
+            .callsFake(async () => blockNumber);
+        sinon
+            .stub(contractInteractor, 'getTransactionCount')
+            .callsFake(async () => accountNonce);
+        sinon
+            .stub(contractInteractor, 'getTransaction')
+            .callsFake(async (hash) => (receipts.has(hash) ? {} : null) as any);
+        sinon
+            .stub(contractInteractor.web3.eth, 'getTransactionReceipt')
+            .callsFake(async (hash: string) => receipts.get(hash) ?? null);
+        tracker = new TransactionTracker(contractInteractor, signer, {
+            confirmations: 3,
+            resendAfterBlocks: 5,
+            dropAfterMs: 0
+        });
+        events.length = 0;
+        [
+            'pending',
+            'mined',
+            'confirmed',
+            'dropped',
+            'replaced',
+            'resent',
+            'resendFailed',
+            'reorged'
+        ].forEach((name) =>
+            tracker.on(name, (transaction: TrackedTransaction) =>
+                events.push([name, transaction])
+            )
+        );
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    function mine(transaction: TrackedTransaction): void {
+        receipts.set(transaction.hash, {
+            transactionHash: transaction.hash,
+            blockNumber,
+            status: true
+        });
+        accountNonce = transaction.details.nonce + 1;
+    }
+
+    it('should decode the broadcast transaction', async () => {
+        const transaction = await tracker.broadcast(sign(unsigned));
+        expect(transaction.details).to.be.deep.equal({ ...unsigned, from });
+        expect(transaction.state).to.be.equal('pending');
+        expect(events.map(([name]) => name)).to.be.deep.equal(['pending']);
+    });
+
+    it('should follow a transaction until it is confirmed', async () => {
+        const transaction = await tracker.broadcast(sign(unsigned));
+        blockNumber++;
+        mine(transaction);
+        await tracker.poll();
+        expect(transaction.state).to.be.equal('mined');
+        expect(transaction.confirmations).to.be.equal(1);
+        blockNumber += 2;
+        await tracker.poll();
+        expect(transaction.state).to.be.equal('confirmed');
+        expect(events.map(([name]) => name)).to.be.deep.equal([
+            'pending',
+            'mined',
+            'confirmed'
+        ]);
+    });
+
+    it('should go back to pending when the receipt disappears', async () => {
+        const transaction = await tracker.broadcast(sign(unsigned));
+        mine(transaction);
+        await tracker.poll();
+        // back in the mempool
+        receipts.set(transaction.hash, null);
+        accountNonce = 7;
+        await tracker.poll();
+        expect(transaction.state).to.be.equal('pending');
+        expect(events.map(([name]) => name)).to.be.deep.equal([
+            'pending',
+            'mined',
+            'pending',
+            'reorged'
+        ]);
+    });
+
+    it('should resend a transaction not mined after some blocks', async () => {
+        const transaction = await tracker.broadcast(sign(unsigned));
+        receipts.set(transaction.hash, null);
+        blockNumber += 5;
+        broadcastTransaction.rejects(new Error('already known'));
+        await tracker.poll();
+        expect(transaction.resendCount).to.be.equal(1);
+        expect(transaction.submittedBlock).to.be.equal(blockNumber);
+        expect(broadcastTransaction).to.have.been.calledTwice;
+    });
+
+    it('should keep polling when a resend fails', async () => {
+        const transaction = await tracker.broadcast(sign(unsigned));
+        receipts.set(transaction.hash, null);
+        blockNumber += 5;
+        broadcastTransaction.rejects(new Error('replacement underpriced'));
+        await tracker.poll();
+        expect(transaction.state).to.be.equal('pending');
+        expect(transaction.lastError).to.be.equal('replacement underpriced');
+        expect(transaction.resendCount).to.be.equal(0);
+        expect(events.map(([name]) => name)).to.be.deep.equal([
+            'pending',
+            'resendFailed'
+        ]);
+        // tried again only after resendAfterBlocks
+        await tracker.poll();
+        expect(broadcastTransaction).to.have.been.calledTwice;
+    });
+
+    it('should mark as replaced a transaction resent with a used nonce', async () => {
+        const transaction = await tracker.broadcast(sign(unsigned));
+        receipts.set(transaction.hash, null);
+        blockNumber += 5;
+        broadcastTransaction.rejects(new Error('nonce too low'));
+        await tracker.poll();
+        expect(transaction.state).to.be.equal('replaced');
+    });
+
+    it('should drop a resent transaction the node keeps forgetting', async () => {
+        const resending = new TransactionTracker(contractInteractor, signer, {
+            resendAfterBlocks: 1,
+            dropAfterMs: 50
+        });
+        const transaction = await resending.broadcast(sign(unsigned));
+        for (let i = 0; i < 3 && transaction.state === 'pending'; i++) {
+            blockNumber++;
+            await resending.poll();
+            await new Promise((resolve) => setTimeout(resolve, 30));
+        }
+        expect(transaction.resendCount).to.be.greaterThan(0);
+        expect(transaction.state).to.be.equal('dropped');
+    });
+
+    it('should drop a transaction unknown to the node', async () => {
+        const transaction = await tracker.broadcast(sign(unsigned));
+        await tracker.poll();
+        expect(transaction.state).to.be.equal('dropped');
+        await expect(tracker.resend(transaction.hash)).to.be.rejectedWith(
+            'is already dropped'
+        );
+    });
+
+    it('should replace with a bumped gas price and settle the competing transaction', async () => {
+        const original = await tracker.broadcast(sign(unsigned));
+        let replacesOnEvent: string | undefined;
+        tracker.once('pending', (transaction: TrackedTransaction) => {
+            replacesOnEvent = transaction.replaces;
+        });
+        const replacement = await tracker.replace(original.hash, '1');
+        expect(replacesOnEvent).to.be.equal(original.hash);
+        expect(replacement.details.nonce).to.be.equal(7);
+        expect(replacement.details.gasPrice).to.be.equal('66000001');
+        expect(replacement.replaces).to.be.equal(original.hash);
+        mine(replacement);
+        await tracker.poll();
+        expect(original.state).to.be.equal('replaced');
+        expect(original.replacedBy).to.be.equal(replacement.hash);
+        expect(replacement.state).to.be.equal('mined');
+    });
+
+    it('should mark as replaced a transaction whose nonce was used elsewhere', async () => {
+        const transaction = await tracker.broadcast(sign(unsigned));
+        accountNonce = 8;
+        await tracker.poll();
+        expect(transaction.state).to.be.equal('replaced');
+        expect(transaction.replacedBy).to.be.undefined;
+    });
+
+    it('should not mark as replaced a transaction mined after its receipt was read', async () => {
+        const transaction = await tracker.broadcast(sign(unsigned));
+        (contractInteractor.getTransactionCount as sinon.SinonStub).callsFake(
+            async () => {
+                mine(transaction);
+                return accountNonce;
+            }
+        );
+        await tracker.poll();
+        expect(transaction.state).to.be.equal('mined');
+        expect(transaction.replacedBy).to.be.undefined;
+    });
+
+    it('should not mark as replaced a transaction mined before its resend', async () => {
+        const transaction = await tracker.broadcast(sign(unsigned));
+        receipts.set(transaction.hash, null);
+        blockNumber += 5;
+        broadcastTransaction.callsFake(async () => {
+            mine(transaction);
+            throw new Error('nonce too low');
+        });
+        await tracker.poll();
+        expect(transaction.state).to.be.equal('mined');
+    });
+
+    it('should restore the transactions replaced by a reorganized one', async () => {
+        const original = await tracker.broadcast(sign(unsigned));
+        const replacement = await tracker.replace(original.hash);
+        mine(replacement);
+        await tracker.poll();
+        expect(original.state).to.be.equal('replaced');
+        // the replacement goes back to the mempool
+        receipts.set(replacement.hash, null);
+        accountNonce = 7;
+        await tracker.poll();
+        expect(replacement.state).to.be.equal('pending');
+        expect(original.state).to.be.equal('pending');
+        expect(original.replacedBy).to.be.undefined;
+        mine(original);
+        await tracker.poll();
+        expect(original.state).to.be.equal('mined');
+        expect(replacement.state).to.be.equal('replaced');
+        expect(replacement.replacedBy).to.be.equal(original.hash);
+    });
+
+    it('should not replace without a signer', async () => {
+        const withoutSigner = new TransactionTracker(contractInteractor);
+        const transaction = await withoutSigner.broadcast(sign(unsigned));
+        await expect(
+            withoutSigner.replace(transaction.hash)
+        ).to.be.rejectedWith('Cannot replace transactions without a signer');
+    });
+
+    it('should wait until the transaction settles', async () => {
+        const transaction = await tracker.broadcast(sign(unsigned));
+        mine(transaction);
+        blockNumber += 3;
+        const settled = await tracker.waitForSettlement(transaction.hash);
+        expect(settled.state).to.be.equal('confirmed');
+        tracker.prune();
+        expect(tracker.get(transaction.hash)).to.be.undefined;
+    });
+
+    it('should decode contract creations without a destination', () => {
+        const details = tracker.parseRawTransaction(
+            sign({ ...unsigned, to: undefined })
+        );
+        expect(details.to).to.be.undefined;
+        expect(details.from).to.be.equal(from);
+    });
+});